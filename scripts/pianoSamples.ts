@@ -0,0 +1,76 @@
+// Write the piano samples in public/instruments/piano/:
+//
+//   npm run piano-samples
+//
+// They are synthesized, not recorded: a few slightly stretched partials per note, each fading
+// faster the higher it is, like a struck string. One 1.5 s mono 16-bit WAV per octave, C2 to C6.
+
+import { mkdir, writeFile } from "node:fs/promises";
+
+const OUT_DIR = "public/instruments/piano";
+const RATE = 22050;
+const SECONDS = 1.5;
+const PARTIALS = 8;
+const INHARMONICITY = 0.0004; // Stretches partial k by sqrt(1 + B·k²), as a stiff string does
+const ATTACK_S = 0.004;
+const RELEASE_S = 0.05;
+const PEAK = 0.8; // Of full scale
+const NOTES: [string, number][] = [["C2", 36], ["C3", 48], ["C4", 60], ["C5", 72], ["C6", 84]];
+
+function partialFrequency(f0: number, k: number) {
+    return f0 * k * Math.sqrt(1 + INHARMONICITY * k * k);
+}
+
+function synthesize(midi: number): Float64Array {
+    const f0 = 440 * 2 ** ((midi - 69) / 12);
+    const partials: number[] = [];
+    for (let k = 1; k <= PARTIALS; k++) {
+        // Leave out partials too close to the Nyquist frequency to play cleanly
+        if (partialFrequency(f0, k) < RATE / 2 - 500) partials.push(k);
+    }
+
+    const samples = new Float64Array(Math.trunc(RATE * SECONDS));
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / RATE;
+        let value = 0;
+        for (const k of partials) {
+            const decay = Math.exp(-t * (1.2 + 0.9 * k) * (f0 / 261.63) ** 0.5);
+            value += (1 / k ** 1.3) * decay * Math.sin(2 * Math.PI * partialFrequency(f0, k) * t);
+        }
+        value *= Math.min(t / ATTACK_S, 1) * Math.min((SECONDS - t) / RELEASE_S, 1);
+        samples[i] = value;
+        peak = Math.max(peak, Math.abs(value));
+    }
+    return samples.map(value => value / peak * PEAK);
+}
+
+function encodeWav(samples: Float64Array): Buffer {
+    const data = samples.length * 2;
+    const wav = Buffer.alloc(44 + data);
+    wav.write("RIFF", 0);
+    wav.writeUInt32LE(36 + data, 4);
+    wav.write("WAVEfmt ", 8);
+    wav.writeUInt32LE(16, 16); // Format chunk size
+    wav.writeUInt16LE(1, 20); // PCM
+    wav.writeUInt16LE(1, 22); // Mono
+    wav.writeUInt32LE(RATE, 24);
+    wav.writeUInt32LE(RATE * 2, 28); // Bytes per second
+    wav.writeUInt16LE(2, 32); // Bytes per frame
+    wav.writeUInt16LE(16, 34); // Bits per sample
+    wav.write("data", 36);
+    wav.writeUInt32LE(data, 40);
+    samples.forEach((value, i) => wav.writeInt16LE(Math.trunc(value * 32767), 44 + i * 2));
+    return wav;
+}
+
+async function main() {
+    await mkdir(OUT_DIR, { recursive: true });
+    for (const [name, midi] of NOTES) {
+        const file = `${OUT_DIR}/${name}.wav`;
+        await writeFile(file, encodeWav(synthesize(midi)));
+        console.log(`Wrote ${file}`);
+    }
+}
+
+main();
@@ -0,0 +1,126 @@
+// Solve a MIDI file to a plank layout without a browser:
+//
+//   npm run solve -- public/midi/No5_4.mid --seed 42 --out layout.json
+//
+// Options: --seed <n> (random when left out), --out <file> (no file when left out),
+// --mode random|timing (the default settings' placement mode when left out),
+// --ball-per-track (one ball per track, like the note-source panel's checkbox),
+// --uniform-planks (every plank the physics' size, instead of sized by its note).
+// Exits with 1 when the solve gave up, 2 on bad arguments.
+
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import RAPIER from "@dimforge/rapier2d-compat";
+import { Midi } from "@tonejs/midi";
+import { DEFAULT_NOTE_SOURCE, extractBallNoteEvents } from "../src/game/melody/noteSource";
+import { DEFAULT_SETTINGS, type PlacementMode } from "../src/game/melody/settings";
+import { MAX_BALLS, ballStartFor, solveBalls } from "../src/game/melody/solver";
+import { createLayout, hashSongData, serializeLayout } from "../src/game/melody/layoutFormat";
+import { MAX_SEED, randomSeed } from "../src/game/melody/random";
+
+interface SolveArguments {
+    file: string;
+    seed: number;
+    out?: string;
+    mode: PlacementMode;
+    ballPerTrack: boolean;
+    uniformPlanks: boolean;
+}
+
+function parseArguments(args: string[]): SolveArguments {
+    let file: string | undefined;
+    let seed = randomSeed();
+    let out: string | undefined;
+    let mode = DEFAULT_SETTINGS.placement.mode;
+    let ballPerTrack = false;
+    let uniformPlanks = false;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === "--seed") {
+            seed = Number(args[++i]);
+            if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+                throw new Error(`--seed must be an integer from 0 to ${MAX_SEED}`);
+            }
+        } else if (arg === "--out") {
+            out = args[++i];
+            if (!out) throw new Error("--out needs a file name");
+        } else if (arg === "--mode") {
+            const value = args[++i];
+            if (value !== "random" && value !== "timing") throw new Error("--mode must be random or timing");
+            mode = value;
+        } else if (arg === "--ball-per-track") {
+            ballPerTrack = true;
+        } else if (arg === "--uniform-planks") {
+            uniformPlanks = true;
+        } else if (arg.startsWith("--")) {
+            throw new Error(`Unknown option ${arg}`);
+        } else if (file) {
+            throw new Error("Solve one MIDI file at a time");
+        } else {
+            file = arg;
+        }
+    }
+    if (!file) {
+        throw new Error("Usage: npm run solve -- <file.mid> [--seed <n>] [--out <layout.json>] [--mode random|timing] [--ball-per-track] [--uniform-planks]");
+    }
+    return { file, seed, out, mode, ballPerTrack, uniformPlanks };
+}
+
+async function main() {
+    let args: SolveArguments;
+    try {
+        args = parseArguments(process.argv.slice(2));
+    } catch (e) {
+        console.error((e as Error).message);
+        process.exitCode = 2;
+        return;
+    }
+
+    await RAPIER.init();
+    const bytes = await readFile(args.file);
+    const data = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    const physics = DEFAULT_SETTINGS.physics;
+    const placement = { ...DEFAULT_SETTINGS.placement, mode: args.mode, noteSizedPlanks: !args.uniformPlanks };
+    const noteSource = { ...DEFAULT_NOTE_SOURCE, ballPerTrack: args.ballPerTrack };
+    const ballEvents = extractBallNoteEvents(new Midi(data), noteSource, placement.leadInMs).slice(0, MAX_BALLS);
+
+    const start = performance.now();
+    const results = solveBalls(ballEvents, { physics, placement, seed: args.seed });
+    const seconds = (performance.now() - start) / 1000;
+
+    const noteEventCount = ballEvents.reduce((sum, events) => sum + events.length, 0);
+    const placed = results.reduce((sum, result) => sum + result.placements.length, 0);
+    const undoCount = results.reduce((sum, result) => sum + result.undoCount, 0);
+    const solved = results.every(result => result.solved);
+    const status = solved ? "solved" : "gave up";
+    console.log(`${args.file}: ${status}, ${placed} / ${noteEventCount} notes placed`);
+    if (results.length > 1) {
+        results.forEach((result, ball) => {
+            console.log(`  ball ${ball + 1}: ${result.placements.length} / ${ballEvents[ball].length} notes, ${result.undoCount} undos`);
+        });
+    }
+    console.log(`seed ${args.seed}, ${args.mode} placement, ${undoCount} undos, ${seconds.toFixed(2)} s`);
+
+    if (args.out) {
+        const name = basename(args.file, extname(args.file));
+        const balls = results.map((result, ball) => ({
+            start: ballStartFor(physics, ball),
+            track: args.ballPerTrack ? ballEvents[ball][0]?.notes[0].track : undefined,
+            noteEvents: ballEvents[ball],
+            placements: result.placements
+        }));
+        const layout = createLayout(
+            { name, hash: hashSongData(data), noteEventCount },
+            physics,
+            balls,
+            solved,
+            args.seed
+        );
+        await writeFile(args.out, serializeLayout(layout));
+        console.log(`Layout written to ${args.out}`);
+    }
+    process.exitCode = solved ? 0 : 1;
+}
+
+main();
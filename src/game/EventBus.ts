@@ -1,5 +1,122 @@
 import { Events } from 'phaser';
+import type { MelodyLayout } from './melody/layoutFormat';
+import type { MelodyStats } from './melody/metrics';
+import type { NoteEvent } from './melody/noteSource';
+import type { PlankPlacement } from './melody/solver';
+import type { MusicMelodyData, PlaybackProgress } from './scenes/MusicMelody';
+
+// A song the scene has parsed (or imported a layout for), before its solve starts
+export interface SongLoaded {
+    name: string;
+    hash: string;
+    noteEventCount: number;
+    imported: boolean; // True when the planks came from an imported layout, so there is no solve
+    arena: boolean; // True in arena mode, where walls sound the notes and nothing is solved
+}
+
+// Note indices count the notes of every ball solved before the current one, too
+export interface SolveProgress {
+    noteIndex: number; // Next note the solve is placing a plank for
+    furthestNoteIndex: number; // Furthest it has got, backtracking aside
+    noteEventCount: number;
+    undoCount: number;
+    ball: number; // Ball being solved; balls solve one after another
+    ballCount: number;
+}
+
+export interface PlankPlaced extends PlankPlacement {
+    ball: number; // Its note index is into this ball's notes
+}
+
+export interface UndoPerformed {
+    noteIndex: number; // Note of the ball's own that the solve went back to
+    undoCount: number; // Undos so far in this solve, every ball's together
+    ball: number;
+}
+
+export interface NoteHit {
+    noteIndex: number; // Into the ball's own notes
+    ball: number;
+    time: number; // Track milliseconds the ball hit the plank at
+    event: NoteEvent;
+}
+
+// An instrument the instrument panel offers
+export interface InstrumentChoice {
+    id: string;
+    name: string;
+    sampled: boolean; // False when it plays its synth voice for want of samples
+}
+
+// A track's instrument, and the one its MIDI program maps to
+export interface TrackInstrument {
+    track: number;
+    name: string;
+    instrument: string;
+    programInstrument: string;
+}
+
+export interface InstrumentsReady {
+    instruments: InstrumentChoice[];
+    tracks: TrackInstrument[];
+}
+
+export interface SongFinished {
+    duration: number; // Milliseconds
+    notesHit: number;
+    noteEventCount: number;
+}
+
+// Every event crossing between Vue and Phaser, by name, with its payload
+export interface MelodyEvents {
+    // Scene lifecycle
+    'current-scene-ready': Phaser.Scene;
+    'scene-shutdown': Phaser.Scene;
+
+    // MusicMelody to Vue
+    'song-loaded': SongLoaded;
+    'instruments-ready': InstrumentsReady;
+    'solve-progress': SolveProgress;
+    'plank-placed': PlankPlaced;
+    'undo-performed': UndoPerformed;
+    'layout-ready': MelodyLayout;
+    'playback-progress': PlaybackProgress;
+    'note-hit': NoteHit;
+    'song-finished': SongFinished;
+    'stats-update': MelodyStats;
+
+    // Vue to MusicMelody
+    'load-song': MusicMelodyData;
+    'playback-seek': number;
+    'playback-pause': boolean;
+    'playback-tempo': number;
+    'preview-toggle': boolean;
+}
+
+// A Phaser event emitter that only takes the events in `T`, each with its own payload type
+export class TypedEventBus<T extends object> {
+    private emitter = new Events.EventEmitter();
+
+    emit<K extends keyof T & string>(event: K, payload: T[K]) {
+        return this.emitter.emit(event, payload);
+    }
+
+    on<K extends keyof T & string>(event: K, listener: (payload: T[K]) => void, context?: unknown) {
+        this.emitter.on(event, listener, context);
+        return this;
+    }
+
+    once<K extends keyof T & string>(event: K, listener: (payload: T[K]) => void, context?: unknown) {
+        this.emitter.once(event, listener, context);
+        return this;
+    }
+
+    off<K extends keyof T & string>(event: K, listener?: (payload: T[K]) => void, context?: unknown) {
+        this.emitter.off(event, listener, context);
+        return this;
+    }
+}
 
 // Used to emit events between Vue components and Phaser scenes
 // https://newdocs.phaser.io/docs/3.70.0/Phaser.Events.EventEmitter
-export const EventBus = new Events.EventEmitter();
\ No newline at end of file
+export const EventBus = new TypedEventBus<MelodyEvents>();
@@ -1,4 +1,6 @@
 import { AUTO, Game } from 'phaser';
+import { Boot } from './scenes/Boot';
+import { Preloader } from './scenes/Preloader';
 import MusicMelody from './scenes/MusicMelody';
 
 //  Find out more information about the Game Config at:
@@ -13,7 +15,8 @@ const config: Phaser.Types.Core.GameConfig = {
         autoCenter: Phaser.Scale.CENTER_BOTH,
         mode: Phaser.Scale.FIT,
     },
-    scene: MusicMelody
+    //  Boot shows the Preloader's background, the Preloader loads the instruments, then MusicMelody runs
+    scene: [Boot, Preloader, MusicMelody]
 };
 
 const StartGame = (parent: string) => {
@@ -0,0 +1,255 @@
+import RAPIER from "@dimforge/rapier2d-compat";
+import type { NoteEvent } from "./noteSource";
+import type { ArenaSettings } from "./settings";
+
+/**
+ * Arena mode: the ball bounces around inside a closed ring of walls instead of off planks
+ * placed along a solved path. Nothing is solved up front. After every bounce the ball's speed
+ * is set so it reaches the next wall right when the next note is due, so each note lands on a
+ * wall. The arena floats without gravity, which keeps every flight a straight line to time.
+ *
+ * The arena may shrink and turn as the song goes on. Flights are then timed for the walls as
+ * they will be at the next note, and the bounce after corrects whatever drift is left.
+ *
+ * Like the solver this needs Rapier and the note events only; the scene draws the walls.
+ */
+
+export const CIRCLE_SEGMENTS = 48; // Walls of a circular arena
+const WALL_HALF_THICKNESS = 0.2;
+const HIT_TOLERANCE_MS = 50; // A bounce this close to the note it was timed for plays that note
+const IDLE_GAP_MS = 1000; // How long a flight takes once the notes have run out
+
+// One wall, in world meters, for drawing
+export interface ArenaWall {
+    x: number;
+    y: number;
+    angle: number; // Radians; the wall's long axis is its local x axis
+    halfLength: number;
+    halfThickness: number;
+}
+
+// A bounce off the wall `wall` that sounds the note event `noteIndex`
+export interface ArenaHit {
+    wall: number;
+    noteIndex: number;
+}
+
+export interface ArenaOptions {
+    world: RAPIER.World;
+    ball: RAPIER.RigidBody; // Starts in the middle of the arena
+    settings: ArenaSettings;
+    ballRadius: number;
+    noteEvents: NoteEvent[];
+    minSpeed: number; // Meters per second the ball never flies slower or faster than
+    maxSpeed: number;
+}
+
+// A wall in the arena's own frame, at full size
+interface LocalWall {
+    direction: number; // Angle from the center to the middle of the wall
+    apothem: number; // Distance from the center to the inside of the wall
+    halfLength: number;
+}
+
+export class MelodyArena {
+    readonly center: { x: number; y: number };
+    readonly settings: ArenaSettings;
+
+    private world: RAPIER.World;
+    private ball: RAPIER.RigidBody;
+    private body: RAPIER.RigidBody; // Kinematic, carrying every wall
+    private colliders: RAPIER.Collider[];
+    private localWalls: LocalWall[];
+    private ballRadius: number;
+    private noteEvents: NoteEvent[];
+    private minSpeed: number;
+    private maxSpeed: number;
+    private endTime: number; // Track time of the last note, when the arena is smallest
+    private velocity = { x: 0, y: 0 }; // After the latest step, to tell a bounce from a straight flight
+    private targets: { time: number; noteIndex: number }[] = []; // Note each flight was timed for, by start time
+
+    constructor(options: ArenaOptions) {
+        this.world = options.world;
+        this.ball = options.ball;
+        this.settings = options.settings;
+        this.ballRadius = options.ballRadius;
+        this.noteEvents = options.noteEvents;
+        this.minSpeed = options.minSpeed;
+        this.maxSpeed = options.maxSpeed;
+        this.endTime = this.noteEvents.length ? this.noteEvents[this.noteEvents.length - 1].time : 0;
+        this.localWalls = createLocalWalls(this.settings);
+
+        const start = this.ball.translation();
+        this.center = { x: start.x, y: start.y };
+        this.world.gravity = { x: 0, y: 0 };
+        // Soft CCD's early contacts soak up part of a bounce, and every flight here is timed to the wall
+        this.ball.setSoftCcdPrediction(0);
+
+        this.body = this.world.createRigidBody(RAPIER.RigidBodyDesc.kinematicPositionBased()
+            .setTranslation(this.center.x, this.center.y));
+        // No friction, so a bounce only turns the ball and never spins it
+        this.colliders = this.localWalls.map(() => this.world.createCollider(
+            RAPIER.ColliderDesc.cuboid(1, WALL_HALF_THICKNESS)
+                .setFriction(0)
+                .setFrictionCombineRule(RAPIER.CoefficientCombineRule.Min)
+                .setRestitution(1)
+                .setRestitutionCombineRule(RAPIER.CoefficientCombineRule.Max),
+            this.body
+        ));
+        this.placeWalls(1);
+        this.retime(0);
+    }
+
+    // Move the walls to where they are at `time`, the track time the next step ends at
+    beforeStep(time: number) {
+        if (this.settings.rotationSpeed !== 0) {
+            this.body.setNextKinematicRotation(this.rotationAt(time));
+        }
+        if (this.settings.shrink > 0) {
+            this.placeWalls(this.scaleAt(time));
+        }
+    }
+
+    // Call after each world step ending at `time`. Returns the hit when the ball bounced on a note.
+    afterStep(time: number): ArenaHit | undefined {
+        const velocity = this.ball.linvel();
+        const change = Math.hypot(velocity.x - this.velocity.x, velocity.y - this.velocity.y);
+        // Without gravity the velocity only changes when the ball hits a wall
+        if (change <= 1e-6 * Math.max(1, Math.hypot(velocity.x, velocity.y))) return undefined;
+
+        const noteIndex = this.targets[this.targets.length - 1].noteIndex;
+        const note = this.noteEvents[noteIndex];
+        const hit = note !== undefined && Math.abs(time - note.time) <= HIT_TOLERANCE_MS;
+        const wall = this.nearestWall(time);
+        // A note that has just played is never the next flight's target, even when it bounced a little early
+        this.retime(time, hit ? noteIndex + 1 : 0);
+        return hit ? { wall, noteIndex } : undefined;
+    }
+
+    // Point the arena at a world restored from a snapshot taken at `time`
+    restore(world: RAPIER.World, time: number) {
+        this.world = world;
+        this.world.gravity = { x: 0, y: 0 };
+        this.ball = world.getRigidBody(this.ball.handle);
+        this.body = world.getRigidBody(this.body.handle);
+        this.colliders = this.colliders.map(collider => world.getCollider(collider.handle));
+        const velocity = this.ball.linvel();
+        this.velocity = { x: velocity.x, y: velocity.y };
+
+        while (this.targets.length > 1 && this.targets[this.targets.length - 1].time > time) {
+            this.targets.pop();
+        }
+    }
+
+    // Every wall as it is at `time`, in world meters. Worked out rather than read off the colliders,
+    // whose world positions only catch up on the next step.
+    getWalls(time: number): ArenaWall[] {
+        const scale = this.scaleAt(time);
+        const rotation = this.rotationAt(time);
+        return this.localWalls.map(wall => {
+            const direction = wall.direction + rotation;
+            const distance = wall.apothem * scale + WALL_HALF_THICKNESS;
+            return {
+                x: this.center.x + Math.cos(direction) * distance,
+                y: this.center.y + Math.sin(direction) * distance,
+                angle: direction + Math.PI / 2,
+                halfLength: wall.halfLength * scale + WALL_HALF_THICKNESS,
+                halfThickness: WALL_HALF_THICKNESS
+            };
+        });
+    }
+
+    // The arena's size at `time`, 1 at the start
+    scaleAt(time: number) {
+        const progress = this.endTime > 0 ? Math.min(Math.max(time / this.endTime, 0), 1) : 1;
+        return 1 - this.settings.shrink * progress;
+    }
+
+    rotationAt(time: number) {
+        return this.settings.rotationSpeed * time / 1000;
+    }
+
+    private placeWalls(scale: number) {
+        this.localWalls.forEach((wall, i) => {
+            const distance = wall.apothem * scale + WALL_HALF_THICKNESS;
+            const collider = this.colliders[i];
+            collider.setTranslationWrtParent({ x: Math.cos(wall.direction) * distance, y: Math.sin(wall.direction) * distance });
+            collider.setRotationWrtParent(wall.direction + Math.PI / 2);
+            // Overlap at the corners, so the ring has no gaps
+            collider.setHalfExtents({ x: wall.halfLength * scale + WALL_HALF_THICKNESS, y: WALL_HALF_THICKNESS });
+        });
+    }
+
+    // Aim the ball's current heading at the wall it will meet, at the speed that gets it there on the next note
+    private retime(time: number, fromNote = 0) {
+        const stepMs = this.world.timestep * 1000;
+        let noteIndex = this.noteEvents.findIndex((event, i) => i >= fromNote && event.time > time + stepMs / 2);
+        if (noteIndex < 0) noteIndex = this.noteEvents.length;
+        this.targets.push({ time, noteIndex });
+
+        const next = this.noteEvents[noteIndex];
+        const gap = (next ? next.time - time : IDLE_GAP_MS) / 1000;
+        const velocity = this.ball.linvel();
+        const speed = Math.hypot(velocity.x, velocity.y);
+        const direction = speed > 0 ? { x: velocity.x / speed, y: velocity.y / speed } : { x: 0, y: 1 };
+
+        const distance = this.distanceToWall(this.ball.translation(), direction, time + gap * 1000);
+        const newSpeed = Math.min(Math.max(distance / gap, this.minSpeed), this.maxSpeed);
+        this.velocity = { x: direction.x * newSpeed, y: direction.y * newSpeed };
+        this.ball.setLinvel(this.velocity, true);
+    }
+
+    // How far the ball can fly from `position` along `direction` before it touches a wall, with the walls as they are at `time`
+    private distanceToWall(position: { x: number; y: number }, direction: { x: number; y: number }, time: number) {
+        // The arena is convex, so the way out is through whichever wall's inner line comes first
+        let distance = Infinity;
+        for (const face of this.facesAt(time)) {
+            const approach = -(direction.x * face.normal.x + direction.y * face.normal.y);
+            if (approach <= 0) continue; // Flying away from this wall
+            const clearance = (position.x - face.x) * face.normal.x + (position.y - face.y) * face.normal.y - this.ballRadius;
+            distance = Math.min(distance, Math.max(clearance, 0) / approach);
+        }
+        return Number.isFinite(distance) ? distance : 0;
+    }
+
+    // The wall whose inner face is closest to the ball
+    private nearestWall(time: number) {
+        const position = this.ball.translation();
+        let nearest = 0;
+        let nearestClearance = Infinity;
+        this.facesAt(time).forEach((face, i) => {
+            const clearance = (position.x - face.x) * face.normal.x + (position.y - face.y) * face.normal.y;
+            if (clearance < nearestClearance) {
+                nearest = i;
+                nearestClearance = clearance;
+            }
+        });
+        return nearest;
+    }
+
+    // The middle of each wall's inner face and its normal pointing into the arena, at `time`
+    private facesAt(time: number) {
+        const scale = this.scaleAt(time);
+        const rotation = this.rotationAt(time);
+        return this.localWalls.map(wall => {
+            const angle = wall.direction + rotation;
+            const outward = { x: Math.cos(angle), y: Math.sin(angle) };
+            return {
+                x: this.center.x + outward.x * wall.apothem * scale,
+                y: this.center.y + outward.y * wall.apothem * scale,
+                normal: { x: -outward.x, y: -outward.y }
+            };
+        });
+    }
+}
+
+// A regular polygon with its corners `radius` from the center, the first wall at the bottom
+function createLocalWalls(settings: ArenaSettings): LocalWall[] {
+    const sides = settings.shape === "circle" ? CIRCLE_SEGMENTS : settings.sides;
+    const halfAngle = Math.PI / sides;
+    return Array.from({ length: sides }, (_, i) => ({
+        direction: Math.PI / 2 + i * 2 * halfAngle,
+        apothem: settings.radius * Math.cos(halfAngle),
+        halfLength: settings.radius * Math.sin(halfAngle)
+    }));
+}
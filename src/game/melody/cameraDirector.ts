@@ -0,0 +1,162 @@
+import type { CameraSettings } from "./settings";
+
+/**
+ * Where the playback camera looks, frame by frame. It keeps the balls in view, leans toward
+ * the planks coming up next and zooms out for a fast ball or for next planks spread far apart.
+ * A deadzone lets the ball move around the middle of the view without dragging the camera
+ * along. Every hit can punch the zoom in a little, and once the song is over the camera pulls
+ * back to show the whole layout.
+ *
+ * Like the metrics collector it never touches Phaser: the scene feeds it positions in world
+ * pixels and applies the shot it returns. Times default to `performance.now()`.
+ */
+
+export const IMPACT_MS = 250; // How long a hit's shake or zoom punch lasts
+export const MAX_SHAKE = 0.01; // Shake intensity at full strength, as a share of the view
+const MAX_PUNCH = 0.15; // Zoom a punch adds at full strength, as a share of the zoom
+const FRAME_MARGIN = 150; // Pixels kept around whatever the camera fits in view
+const FRAME_LERP = 0.1; // How quickly the camera catches up, per frame
+const ZOOM_OUT_SPEED = 30; // Meters per second at which the speed alone zooms out to minZoom
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// The view's centre in world pixels, and its zoom
+export interface CameraShot {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+// What the scene sees this frame, in world pixels
+export interface CameraFrame {
+    balls: Point[];
+    speed: number; // The fastest ball's, in meters per second
+    upcoming: Point[]; // Planks the balls hit within the look-ahead time
+    overview?: Point[]; // Everything in the layout, once the song is over
+}
+
+export class CameraDirector {
+    private settings: CameraSettings;
+    private view: { width: number; height: number }; // Pixels on screen
+    private shot: CameraShot; // Where the camera is, without the punch
+    private impactTime = -Infinity;
+
+    constructor(settings: CameraSettings, view: { width: number; height: number }, start: CameraShot) {
+        this.settings = settings;
+        this.view = view;
+        this.shot = { ...start };
+    }
+
+    setSettings(settings: CameraSettings) {
+        this.settings = settings;
+    }
+
+    getSettings(): CameraSettings {
+        return this.settings;
+    }
+
+    // Put the camera at `shot` from here on, without easing there; for when something else moved it
+    cut(shot: CameraShot) {
+        this.shot = { ...shot };
+    }
+
+    // A ball hit a plank: start a zoom punch, when the settings ask for one
+    impact(time = performance.now()) {
+        this.impactTime = time;
+    }
+
+    // Ease toward this frame's shot and return where the camera should be
+    update(frame: CameraFrame, time = performance.now()): CameraShot {
+        const target = frame.overview && this.settings.overview ? this.overviewShot(frame.overview) : this.followShot(frame);
+        this.shot = {
+            x: lerp(this.shot.x, target.x, FRAME_LERP),
+            y: lerp(this.shot.y, target.y, FRAME_LERP),
+            zoom: lerp(this.shot.zoom, target.zoom, FRAME_LERP)
+        };
+        return { ...this.shot, zoom: this.shot.zoom * (1 + this.punchAt(time)) };
+    }
+
+    private followShot(frame: CameraFrame): CameraShot {
+        const subject = center(frame.balls);
+        let focus = subject;
+        if (frame.upcoming.length > 0 && this.settings.lookAhead > 0) {
+            const ahead = center(frame.upcoming);
+            focus = {
+                x: lerp(subject.x, ahead.x, this.settings.lookAhead),
+                y: lerp(subject.y, ahead.y, this.settings.lookAhead)
+            };
+        }
+
+        // The deadzone is a box around the middle of the view, in world pixels at the zoom aimed for
+        const zoom = this.followZoom(frame);
+        const halfWidth = this.view.width * this.settings.deadzone / 2 / zoom;
+        const halfHeight = this.view.height * this.settings.deadzone / 2 / zoom;
+        return {
+            x: intoDeadzone(this.shot.x, focus.x, halfWidth),
+            y: intoDeadzone(this.shot.y, focus.y, halfHeight),
+            zoom
+        };
+    }
+
+    // Zoomed out by the speed and far enough to fit the next planks in, or just far enough for every ball
+    private followZoom(frame: CameraFrame) {
+        const { autoZoom, minZoom, maxZoom } = this.settings;
+        if (!autoZoom) {
+            return clamp(Math.min(1, this.fitZoom(frame.balls)), minZoom, maxZoom);
+        }
+        const speedZoom = maxZoom - (maxZoom - minZoom) * Math.min(frame.speed / ZOOM_OUT_SPEED, 1);
+        return clamp(Math.min(speedZoom, this.fitZoom([...frame.balls, ...frame.upcoming])), minZoom, maxZoom);
+    }
+
+    // The whole layout, however far out that takes, but never closer than maxZoom
+    private overviewShot(points: Point[]): CameraShot {
+        const { x, y } = center(points);
+        return { x, y, zoom: Math.min(this.fitZoom(points), this.settings.maxZoom) };
+    }
+
+    // The zoom that fits every point in view, with the margin around them
+    private fitZoom(points: Point[]) {
+        const { width, height } = bounds(points);
+        return Math.min(this.view.width / (width + FRAME_MARGIN * 2), this.view.height / (height + FRAME_MARGIN * 2));
+    }
+
+    // Share of the zoom the punch adds at `time`, easing out over IMPACT_MS
+    private punchAt(time: number) {
+        if (this.settings.impact !== "punch") return 0;
+        const progress = (time - this.impactTime) / IMPACT_MS;
+        if (progress < 0 || progress >= 1) return 0;
+        return MAX_PUNCH * this.settings.impactStrength * (1 - progress) * (1 - progress);
+    }
+}
+
+// Keep `focus` within `half` of the camera's centre `current`, moving the camera as little as it takes
+function intoDeadzone(current: number, focus: number, half: number) {
+    if (focus > current + half) return focus - half;
+    if (focus < current - half) return focus + half;
+    return current;
+}
+
+function bounds(points: Point[]) {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+}
+
+// The middle of the points' bounding box
+function center(points: Point[]): Point {
+    const { left, top, width, height } = bounds(points);
+    return { x: left + width / 2, y: top + height / 2 };
+}
+
+function lerp(from: number, to: number, amount: number) {
+    return from + (to - from) * amount;
+}
+
+function clamp(value: number, min: number, max: number) {
+    return Math.min(Math.max(value, min), max);
+}
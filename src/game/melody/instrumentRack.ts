@@ -0,0 +1,118 @@
+import * as Tone from "tone";
+import type { InstrumentDefinition, InstrumentManifest, SynthVoice } from "./instruments";
+import type { MelodyNote } from "./noteSource";
+
+/**
+ * Plays each note on its track's instrument. Instruments with samples play through a
+ * Tone.Sampler, the rest through their synth voice. Every instrument feeds the master volume
+ * directly and through a reverb send, so one control sets how much of the room they all get.
+ */
+
+export const INSTRUMENT_LIBRARY_KEY = "instrument-library"; // Where the Preloader leaves the library in the game registry
+const REVERB_DECAY = 2.5; // Seconds
+
+// The manifest and the samples the Preloader decoded, by instrument id and then note name
+export interface InstrumentLibrary {
+    manifest: InstrumentManifest;
+    samples: Map<string, Record<string, AudioBuffer>>;
+}
+
+type SynthVoiceOptions = NonNullable<ConstructorParameters<typeof Tone.Synth>[0]>;
+
+// How each built-in voice sounds; the louder waveforms are turned down to sit with the rest
+const SYNTH_VOICE_OPTIONS: Record<SynthVoice, SynthVoiceOptions> = {
+    synth: {},
+    keys: { oscillator: { type: "triangle" }, envelope: { attack: 0.005, decay: 0.6, sustain: 0.2, release: 0.8 } },
+    bell: { oscillator: { type: "sine" }, envelope: { attack: 0.001, decay: 1.2, sustain: 0, release: 1.2 } },
+    organ: { oscillator: { type: "square" }, envelope: { attack: 0.01, decay: 0.1, sustain: 0.9, release: 0.1 }, volume: -10 },
+    pluck: { oscillator: { type: "triangle" }, envelope: { attack: 0.002, decay: 0.3, sustain: 0, release: 0.3 } },
+    bass: { oscillator: { type: "square" }, envelope: { attack: 0.01, decay: 0.2, sustain: 0.6, release: 0.3 }, volume: -8 },
+    pad: { oscillator: { type: "sawtooth" }, envelope: { attack: 0.3, decay: 0.4, sustain: 0.8, release: 1.5 }, volume: -12 },
+    brass: { oscillator: { type: "sawtooth" }, envelope: { attack: 0.05, decay: 0.2, sustain: 0.7, release: 0.4 }, volume: -10 },
+    reed: { oscillator: { type: "square" }, envelope: { attack: 0.03, decay: 0.1, sustain: 0.8, release: 0.3 }, volume: -10 },
+    lead: { oscillator: { type: "sawtooth" }, envelope: { attack: 0.01, decay: 0.1, sustain: 0.9, release: 0.3 }, volume: -12 },
+    drum: { oscillator: { type: "sine" }, envelope: { attack: 0.001, decay: 0.15, sustain: 0, release: 0.1 } }
+};
+
+export class InstrumentRack {
+    private library: InstrumentLibrary;
+    private master: Tone.Volume;
+    private reverb: Tone.Reverb;
+    private reverbSend: Tone.Gain;
+    private voices = new Map<string, Tone.Sampler | Tone.PolySynth>(); // By instrument id, made the first time a track picks it
+    private trackInstruments = new Map<number, string>();
+
+    constructor(library: InstrumentLibrary) {
+        this.library = library;
+        this.master = new Tone.Volume().toDestination();
+        this.reverb = new Tone.Reverb({ decay: REVERB_DECAY, wet: 1 }).connect(this.master);
+        this.reverbSend = new Tone.Gain(0).connect(this.reverb);
+        this.voice(library.manifest.defaultInstrument);
+    }
+
+    get manifest(): InstrumentManifest {
+        return this.library.manifest;
+    }
+
+    // Whether the instrument plays its own samples rather than its synth voice
+    isSampled(id: string) {
+        return this.library.samples.has(id);
+    }
+
+    instrumentFor(track: number): string {
+        return this.trackInstruments.get(track) ?? this.library.manifest.defaultInstrument;
+    }
+
+    // Play `track` on the instrument `id` from the next note on. Unknown ids are ignored.
+    setTrackInstrument(track: number, id: string) {
+        if (!this.definition(id)) return;
+        this.voice(id);
+        this.trackInstruments.set(track, id);
+    }
+
+    // Sound `note` on its track's instrument at the audio context time `time`
+    play(note: MelodyNote, time: number) {
+        this.voice(this.instrumentFor(note.track)).triggerAttackRelease(
+            Tone.Frequency(note.midi, "midi").toFrequency(),
+            note.duration,
+            time,
+            note.velocity
+        );
+    }
+
+    // 0 (silent) to 1 (full)
+    setVolume(volume: number) {
+        this.master.volume.value = Tone.gainToDb(Math.min(Math.max(volume, 0), 1));
+    }
+
+    // How much of every instrument goes to the reverb, 0 (dry) to 1
+    setReverb(amount: number) {
+        this.reverbSend.gain.value = Math.min(Math.max(amount, 0), 1);
+    }
+
+    dispose() {
+        this.voices.forEach(voice => voice.dispose());
+        this.voices.clear();
+        this.reverbSend.dispose();
+        this.reverb.dispose();
+        this.master.dispose();
+    }
+
+    private definition(id: string): InstrumentDefinition | undefined {
+        return this.library.manifest.instruments.find(instrument => instrument.id === id);
+    }
+
+    private voice(id: string): Tone.Sampler | Tone.PolySynth {
+        let voice = this.voices.get(id);
+        if (!voice) {
+            const samples = this.library.samples.get(id);
+            voice = samples
+                ? new Tone.Sampler({ urls: samples })
+                : new Tone.PolySynth(Tone.Synth, SYNTH_VOICE_OPTIONS[this.definition(id)?.synth ?? "synth"]);
+            voice.connect(this.master);
+            voice.connect(this.reverbSend);
+            this.voices.set(id, voice);
+        }
+        return voice;
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * The instruments the notes play on, as listed in `public/instruments/manifest.json`. Each one
+ * covers a range of General MIDI programs and may name a set of samples, served from `public/`
+ * like the bundled songs, for a Tone.Sampler to play. Every instrument also names a built-in
+ * synth voice, which plays instead when it has no samples or they fail to load.
+ *
+ * A track plays on the instrument its MIDI program maps to unless the user picks another. This
+ * module only reads the manifest and does the mapping; instrumentRack.ts makes the sounds.
+ */
+
+export const INSTRUMENT_MANIFEST_FORMAT = "music-melody-instruments";
+export const INSTRUMENT_MANIFEST_VERSION = 1;
+export const INSTRUMENT_MANIFEST_URL = "instruments/manifest.json";
+
+// The built-in synth voices, from a plain synth to a short percussive blip
+export const SYNTH_VOICES = ["synth", "keys", "bell", "organ", "pluck", "bass", "pad", "brass", "reed", "lead", "drum"] as const;
+export type SynthVoice = typeof SYNTH_VOICES[number];
+
+// Sample files for a Tone.Sampler, which pitches the nearest one to play the notes in between
+export interface SampleSet {
+    baseUrl: string; // Relative to the page, so a folder under public/
+    urls: Record<string, string>; // File per note name, such as "C4": "C4.mp3"
+}
+
+export interface InstrumentDefinition {
+    id: string;
+    name: string;
+    programs: [number, number]; // First and last General MIDI program (0 to 127) it plays by default
+    percussion: boolean; // Whether it plays percussion tracks, whatever their program
+    synth: SynthVoice;
+    samples?: SampleSet;
+}
+
+export interface InstrumentManifest {
+    defaultInstrument: string; // For programs nothing covers, and for layouts, which carry no programs
+    instruments: InstrumentDefinition[];
+}
+
+// What plays when the manifest is missing or broken: the plain synth, for everything
+export const FALLBACK_MANIFEST: InstrumentManifest = {
+    defaultInstrument: "synth",
+    instruments: [{ id: "synth", name: "Synth", programs: [0, 127], percussion: true, synth: "synth" }]
+};
+
+export class InstrumentManifestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InstrumentManifestError";
+    }
+}
+
+// The instrument a track plays on by default. Percussion goes to the first percussion instrument,
+// anything else to the first whose programs include the track's.
+export function instrumentForProgram(manifest: InstrumentManifest, program: number, percussion: boolean): string {
+    const instrument = manifest.instruments.find(percussion
+        ? candidate => candidate.percussion
+        : candidate => program >= candidate.programs[0] && program <= candidate.programs[1]);
+    return instrument?.id ?? manifest.defaultInstrument;
+}
+
+// Check a manifest loaded from JSON, throwing InstrumentManifestError on the first problem
+export function parseInstrumentManifest(data: unknown): InstrumentManifest {
+    if (!isObject(data) || data.format !== INSTRUMENT_MANIFEST_FORMAT) {
+        throw new InstrumentManifestError("This file is not a MusicMelody instrument manifest");
+    }
+    if (data.version !== INSTRUMENT_MANIFEST_VERSION) {
+        throw new InstrumentManifestError(`Unknown instrument manifest version ${String(data.version)}`);
+    }
+    if (!Array.isArray(data.instruments) || data.instruments.length === 0) {
+        throw new InstrumentManifestError("Expected instruments to list at least one instrument");
+    }
+
+    const instruments = data.instruments.map((instrument: unknown, i: number) => parseInstrument(instrument, `instruments[${i}]`));
+    const ids = new Set(instruments.map(instrument => instrument.id));
+    if (ids.size !== instruments.length) {
+        throw new InstrumentManifestError("Expected every instrument to have its own id");
+    }
+    if (typeof data.defaultInstrument !== "string" || !ids.has(data.defaultInstrument)) {
+        throw new InstrumentManifestError("Expected defaultInstrument to be the id of one of the instruments");
+    }
+    return { defaultInstrument: data.defaultInstrument, instruments };
+}
+
+function parseInstrument(data: unknown, path: string): InstrumentDefinition {
+    if (!isObject(data)) {
+        throw new InstrumentManifestError(`Expected ${path} to be an object`);
+    }
+    for (const key of ["id", "name"]) {
+        if (typeof data[key] !== "string" || data[key] === "") {
+            throw new InstrumentManifestError(`Expected ${path}.${key} to be a non-empty string`);
+        }
+    }
+    const programs = data.programs;
+    if (!Array.isArray(programs) || programs.length !== 2 || !programs.every(isProgram) || programs[0] > programs[1]) {
+        throw new InstrumentManifestError(`Expected ${path}.programs to be a first and last program from 0 to 127`);
+    }
+    if (!SYNTH_VOICES.includes(data.synth)) {
+        throw new InstrumentManifestError(`Expected ${path}.synth to be one of ${SYNTH_VOICES.join(", ")}`);
+    }
+
+    const instrument: InstrumentDefinition = {
+        id: data.id,
+        name: data.name,
+        programs: [programs[0], programs[1]],
+        percussion: data.percussion === true,
+        synth: data.synth
+    };
+    if (data.samples !== undefined) {
+        instrument.samples = parseSampleSet(data.samples, `${path}.samples`);
+    }
+    return instrument;
+}
+
+function parseSampleSet(data: unknown, path: string): SampleSet {
+    if (!isObject(data) || typeof data.baseUrl !== "string") {
+        throw new InstrumentManifestError(`Expected ${path} to have a baseUrl`);
+    }
+    if (!isObject(data.urls) || Object.keys(data.urls).length === 0) {
+        throw new InstrumentManifestError(`Expected ${path}.urls to map at least one note to a file`);
+    }
+    for (const [note, url] of Object.entries(data.urls)) {
+        if (!/^[A-G][#b]?-?\d$/.test(note)) {
+            throw new InstrumentManifestError(`Expected ${path}.urls to be keyed by note names, not ${note}`);
+        }
+        if (typeof url !== "string" || url === "") {
+            throw new InstrumentManifestError(`Expected ${path}.urls.${note} to be a file name`);
+        }
+    }
+    return { baseUrl: data.baseUrl, urls: { ...data.urls } };
+}
+
+function isProgram(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 127;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
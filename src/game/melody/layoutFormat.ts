@@ -0,0 +1,302 @@
+import type { MelodyNote, NoteEvent } from "./noteSource";
+import type { PhysicsParameters } from "./physics";
+import { MAX_BALLS, type PlankPlacement } from "./solver";
+
+/**
+ * Solved plank layouts saved as JSON, so a layout that took minutes to find survives a reload.
+ *
+ * A layout is self-contained: every plank carries the notes it plays, so replaying one needs
+ * neither the MIDI file nor a new solve. `song` only identifies where it came from.
+ *
+ * Bump LAYOUT_FORMAT_VERSION whenever a field changes meaning or a required field is added;
+ * optional additions keep the version. See "Plank layout format" in the README.
+ *
+ * Version 2 gave every plank its own restitution and size and added several balls. Version 1
+ * layouts still load: parseLayout gives their planks the layout's physics restitution and size.
+ */
+export const LAYOUT_FORMAT = "music-melody-layout";
+export const LAYOUT_FORMAT_VERSION = 2;
+
+export interface SongIdentity {
+    name: string;
+    hash: string; // FNV-1a of the MIDI file bytes, as 8 hex digits
+    noteEventCount: number; // Note events the solve was asked to place
+}
+
+export interface LayoutNote {
+    midi: number;
+    name: string;
+    time: number; // Milliseconds since the ball dropped
+    duration: number; // Seconds
+    velocity: number; // 0-1
+    track: number;
+}
+
+export interface LayoutPlank {
+    x: number; // Meters
+    y: number; // Meters
+    angle: number; // Radians
+    restitution: number;
+    halfLength: number; // Meters
+    halfThickness: number; // Meters
+    time: number; // Milliseconds since the ball dropped, when the ball should hit it
+    notes: LayoutNote[];
+    ball?: number; // Index into MelodyLayout.balls; missing means the first ball
+}
+
+// One ball of a layout with several
+export interface LayoutBall {
+    start: { x: number; y: number }; // Drop position, in meters
+    track?: number; // The MIDI track it plays, when the song was split into one ball per track
+}
+
+export interface MelodyLayout {
+    format: typeof LAYOUT_FORMAT;
+    version: number;
+    song: SongIdentity;
+    physics: PhysicsParameters;
+    solved: boolean; // False when the solve gave up and only the leading notes have planks
+    seed?: number; // Seed the solve ran with; missing from hand-made layouts
+    balls?: LayoutBall[]; // Missing means a single ball dropping from physics.ballStart
+    planks: LayoutPlank[]; // Every ball's, by the time they are hit
+}
+
+// One ball's part of a solve: the notes it plays and the planks it got for them
+export interface BallSolve {
+    start: { x: number; y: number };
+    track?: number;
+    noteEvents: NoteEvent[];
+    placements: PlankPlacement[]; // Note indices point into this ball's noteEvents
+}
+
+// Thrown by parseLayout with a message fit to show the user as is
+export class LayoutFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "LayoutFormatError";
+    }
+}
+
+export function hashSongData(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// The layout for a finished solve of one or more balls. A single ball leaves out the ball
+// fields, so its layout reads the same as before multi-ball layouts existed.
+export function createLayout(
+    song: SongIdentity,
+    physics: PhysicsParameters,
+    balls: BallSolve[],
+    solved: boolean,
+    seed?: number
+): MelodyLayout {
+    const multiBall = balls.length > 1;
+    const planks = balls.flatMap((ball, index) => ball.placements.map((placement): LayoutPlank => {
+        const event = ball.noteEvents[placement.noteIndex];
+        return {
+            x: placement.x,
+            y: placement.y,
+            angle: placement.angle,
+            restitution: placement.restitution,
+            halfLength: placement.halfLength,
+            halfThickness: placement.halfThickness,
+            time: event.time,
+            notes: event.notes.map(note => ({ ...note })),
+            ...(multiBall ? { ball: index } : {})
+        };
+    }));
+
+    return {
+        format: LAYOUT_FORMAT,
+        version: LAYOUT_FORMAT_VERSION,
+        song,
+        physics,
+        solved,
+        seed,
+        ...(multiBall ? { balls: balls.map(ball => ({ start: { ...ball.start }, track: ball.track })) } : {}),
+        // Stable, so a single ball's planks keep their order and simultaneous hits keep ball order
+        planks: planks.sort((a, b) => a.time - b.time)
+    };
+}
+
+export function serializeLayout(layout: MelodyLayout): string {
+    return JSON.stringify(layout, null, 2);
+}
+
+// The note events a layout replays, in plank order
+export function layoutNoteEvents(layout: MelodyLayout): NoteEvent[] {
+    return layout.planks.map(plank => ({
+        time: plank.time,
+        notes: plank.notes.map((note): MelodyNote => ({ ...note }))
+    }));
+}
+
+// Split a layout back into its balls, each with its own note events and planks
+export function layoutBalls(layout: MelodyLayout): BallSolve[] {
+    const balls: BallSolve[] = (layout.balls ?? [{ start: layout.physics.ballStart }]).map(ball => ({
+        start: { ...ball.start },
+        track: ball.track,
+        noteEvents: [],
+        placements: []
+    }));
+    for (const plank of layout.planks) {
+        const ball = balls[plank.ball ?? 0];
+        ball.placements.push({
+            x: plank.x,
+            y: plank.y,
+            angle: plank.angle,
+            restitution: plank.restitution,
+            halfLength: plank.halfLength,
+            halfThickness: plank.halfThickness,
+            noteIndex: ball.noteEvents.length
+        });
+        ball.noteEvents.push({
+            time: plank.time,
+            notes: plank.notes.map((note): MelodyNote => ({ ...note }))
+        });
+    }
+    return balls;
+}
+
+export function parseLayout(json: string): MelodyLayout {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new LayoutFormatError("The layout file is not valid JSON");
+    }
+
+    if (!isObject(data) || data.format !== LAYOUT_FORMAT) {
+        throw new LayoutFormatError("This file is not a MusicMelody plank layout");
+    }
+    if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+        throw new LayoutFormatError(`Unknown layout version ${String(data.version)}`);
+    }
+    if (data.version > LAYOUT_FORMAT_VERSION) {
+        throw new LayoutFormatError(
+            `The layout is version ${data.version}, but this build only reads up to version ${LAYOUT_FORMAT_VERSION}`
+        );
+    }
+
+    expectObject(data.song, "song");
+    expectString(data.song.name, "song.name");
+    expectString(data.song.hash, "song.hash");
+    expectNumber(data.song.noteEventCount, "song.noteEventCount");
+
+    expectObject(data.physics, "physics");
+    for (const key of ["gravity", "ballRestitution", "plankRestitution"]) {
+        expectNumber(data.physics[key], `physics.${key}`);
+    }
+    // A zero timestep never advances the replay, and zero sizes make nothing to hit or draw
+    for (const key of ["timestep", "ballRadius", "plankHalfLength", "plankHalfThickness", "scaleFactor"]) {
+        expectPositive(data.physics[key], `physics.${key}`);
+    }
+    for (const key of ["ballStart", "initialVelocity"]) {
+        expectObject(data.physics[key], `physics.${key}`);
+        expectNumber(data.physics[key].x, `physics.${key}.x`);
+        expectNumber(data.physics[key].y, `physics.${key}.y`);
+    }
+
+    if (data.version === 1) {
+        upgradeVersion1(data);
+    }
+
+    if (typeof data.solved !== "boolean") {
+        throw new LayoutFormatError("Expected solved to be true or false");
+    }
+    if (data.seed !== undefined && (!Number.isInteger(data.seed) || data.seed < 0)) {
+        throw new LayoutFormatError("Expected seed to be a non-negative integer");
+    }
+    if (data.balls !== undefined) {
+        if (!Array.isArray(data.balls) || data.balls.length === 0 || data.balls.length > MAX_BALLS) {
+            throw new LayoutFormatError(`Expected balls to list from 1 to ${MAX_BALLS} balls`);
+        }
+        data.balls.forEach((ball: unknown, i: number) => {
+            expectObject(ball, `balls[${i}]`);
+            expectObject(ball.start, `balls[${i}].start`);
+            expectNumber(ball.start.x, `balls[${i}].start.x`);
+            expectNumber(ball.start.y, `balls[${i}].start.y`);
+            if (ball.track !== undefined) {
+                expectNumber(ball.track, `balls[${i}].track`);
+            }
+        });
+    }
+    const ballCount = data.balls === undefined ? 1 : data.balls.length;
+    if (!Array.isArray(data.planks)) {
+        throw new LayoutFormatError("Expected planks to be a list");
+    }
+    data.planks.forEach((plank: unknown, i: number) => {
+        expectObject(plank, `planks[${i}]`);
+        for (const key of ["x", "y", "angle", "time"]) {
+            expectNumber(plank[key], `planks[${i}].${key}`);
+        }
+        expectNumber(plank.restitution, `planks[${i}].restitution`);
+        for (const key of ["halfLength", "halfThickness"]) {
+            expectPositive(plank[key], `planks[${i}].${key}`);
+        }
+        if (plank.ball !== undefined && (!Number.isInteger(plank.ball) || plank.ball < 0 || plank.ball >= ballCount)) {
+            throw new LayoutFormatError(`Expected planks[${i}].ball to be one of the ${ballCount} balls`);
+        }
+        if (!Array.isArray(plank.notes) || plank.notes.length === 0) {
+            throw new LayoutFormatError(`Expected planks[${i}].notes to list at least one note`);
+        }
+        plank.notes.forEach((note: unknown, j: number) => {
+            const path = `planks[${i}].notes[${j}]`;
+            expectObject(note, path);
+            expectString(note.name, `${path}.name`);
+            for (const key of ["midi", "time", "duration", "velocity", "track"]) {
+                expectNumber(note[key], `${path}.${key}`);
+            }
+        });
+    });
+
+    return data as unknown as MelodyLayout;
+}
+
+// Version 1 planks could leave out their restitution and size, which then were the physics ones.
+// Its multi-ball fields were optional additions that version 2 reads the same.
+function upgradeVersion1(data: Record<string, any>) {
+    if (Array.isArray(data.planks)) {
+        for (const plank of data.planks) {
+            if (!isObject(plank)) continue;
+            plank.restitution ??= data.physics.plankRestitution;
+            plank.halfLength ??= data.physics.plankHalfLength;
+            plank.halfThickness ??= data.physics.plankHalfThickness;
+        }
+    }
+    data.version = LAYOUT_FORMAT_VERSION;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): asserts value is Record<string, any> {
+    if (!isObject(value)) {
+        throw new LayoutFormatError(`Expected ${path} to be an object`);
+    }
+}
+
+function expectNumber(value: unknown, path: string) {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new LayoutFormatError(`Expected ${path} to be a number`);
+    }
+}
+
+function expectPositive(value: unknown, path: string) {
+    if (typeof value !== "number" || !(value > 0) || !Number.isFinite(value)) {
+        throw new LayoutFormatError(`Expected ${path} to be a positive number`);
+    }
+}
+
+function expectString(value: unknown, path: string) {
+    if (typeof value !== "string") {
+        throw new LayoutFormatError(`Expected ${path} to be a string`);
+    }
+}
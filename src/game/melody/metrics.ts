@@ -0,0 +1,162 @@
+import type { PlacementMode } from "./settings";
+
+// Live numbers on how a solve or playback is going, for the stats panel, and a summary of the
+// whole run for export. The scene feeds the collector; it never reads Phaser or Rapier itself.
+// Times default to `performance.now()`, in wall-clock milliseconds.
+
+const RATE_WINDOW_MS = 1000; // Undo rate and step time are taken over this much recent wall-clock time
+
+export interface MelodyStats {
+    phase: "solving" | "playing";
+    notesPlaced: number; // Planks in the layout so far, or every note in an arena
+    noteEventCount: number;
+    noteIndex: number; // Next note the solve places a plank for, or the next one playback reaches
+    songTime: number; // Track milliseconds
+    undoCount: number;
+    undoRate: number; // Undos per second, over the last second
+    bodyCount: number; // Rapier rigid bodies
+    colliderCount: number;
+    stepTime: number; // Mean milliseconds per physics step, over the last second
+    fps: number;
+    ballSpeed: number; // Meters per second
+}
+
+// What a stats panel gets from the scene besides the collector's own counts
+export type WorldStats = Omit<MelodyStats, "undoCount" | "undoRate" | "stepTime">;
+
+export interface RunIdentity {
+    song: string;
+    seed: number;
+    placementMode: PlacementMode | null; // Null for an imported layout or an arena, neither solved here
+    noteEventCount: number;
+}
+
+// One run from load to now, for export
+export interface RunSummary extends RunIdentity {
+    startedAt: string; // ISO date
+    notesPlaced: number;
+    solved: boolean;
+    undoCount: number;
+    solveSeconds: number;
+    meanUndoRate: number; // Undos per second of solving
+    peakUndoRate: number;
+    notesHit: number; // Planks the ball has hit at least once during playback
+    meanStepTime: number; // Milliseconds per physics step, solve and playback together
+    maxStepTime: number; // Worst frame's mean step time
+    meanFps: number;
+    minFps: number;
+    maxBallSpeed: number;
+}
+
+export class MetricsCollector {
+    readonly run: RunIdentity;
+    private startedAt = new Date();
+    private solveStart: number;
+    private solveEnd?: number;
+    private notesPlaced = 0;
+    private solved = false;
+    private undoCount = 0;
+    private undoTimes: number[] = []; // Within the rate window
+    private peakUndoRate = 0;
+    private steps: { time: number; duration: number; count: number }[] = []; // Batches within the rate window
+    private stepCount = 0;
+    private totalStepTime = 0;
+    private maxStepTime = 0;
+    private frameCount = 0;
+    private totalFps = 0;
+    private minFps = Infinity;
+    private maxBallSpeed = 0;
+    private notesHit = new Set<string>(); // "ball:noteIndex"
+
+    constructor(run: RunIdentity, time = performance.now()) {
+        this.run = run;
+        this.solveStart = time;
+    }
+
+    recordUndo(time = performance.now()) {
+        this.undoCount++;
+        this.undoTimes.push(time);
+        this.trim(time);
+        this.peakUndoRate = Math.max(this.peakUndoRate, this.getUndoRate(time));
+    }
+
+    // `count` physics steps that took `duration` milliseconds together, usually one frame's worth
+    recordSteps(count: number, duration: number, time = performance.now()) {
+        if (count === 0) return;
+
+        this.steps.push({ time, duration, count });
+        this.stepCount += count;
+        this.totalStepTime += duration;
+        this.maxStepTime = Math.max(this.maxStepTime, duration / count);
+    }
+
+    // Once per rendered frame
+    recordFrame(fps: number, ballSpeed: number) {
+        this.frameCount++;
+        this.totalFps += fps;
+        this.minFps = Math.min(this.minFps, fps);
+        this.maxBallSpeed = Math.max(this.maxBallSpeed, ballSpeed);
+    }
+
+    recordNoteHit(noteIndex: number, ball = 0) {
+        this.notesHit.add(`${ball}:${noteIndex}`);
+    }
+
+    // `notesPlaced` planks made it into the layout; call right away for an imported layout
+    finishSolve(notesPlaced: number, solved: boolean, time = performance.now()) {
+        this.notesPlaced = notesPlaced;
+        this.solved = solved;
+        this.solveEnd = time;
+    }
+
+    getUndoRate(time = performance.now()) {
+        this.trim(time);
+        return this.undoTimes.length / (RATE_WINDOW_MS / 1000);
+    }
+
+    getStepTime(time = performance.now()) {
+        this.trim(time);
+        const count = this.steps.reduce((sum, step) => sum + step.count, 0);
+        return count ? this.steps.reduce((sum, step) => sum + step.duration, 0) / count : 0;
+    }
+
+    snapshot(world: WorldStats, time = performance.now()): MelodyStats {
+        return {
+            ...world,
+            undoCount: this.undoCount,
+            undoRate: this.getUndoRate(time),
+            stepTime: this.getStepTime(time)
+        };
+    }
+
+    summary(time = performance.now()): RunSummary {
+        const solveSeconds = ((this.solveEnd ?? time) - this.solveStart) / 1000;
+        return {
+            ...this.run,
+            startedAt: this.startedAt.toISOString(),
+            notesPlaced: this.notesPlaced,
+            solved: this.solved,
+            undoCount: this.undoCount,
+            solveSeconds,
+            meanUndoRate: solveSeconds > 0 ? this.undoCount / solveSeconds : 0,
+            peakUndoRate: this.peakUndoRate,
+            notesHit: this.notesHit.size,
+            meanStepTime: this.stepCount ? this.totalStepTime / this.stepCount : 0,
+            maxStepTime: this.maxStepTime,
+            meanFps: this.frameCount ? this.totalFps / this.frameCount : 0,
+            minFps: this.frameCount ? this.minFps : 0,
+            maxBallSpeed: this.maxBallSpeed
+        };
+    }
+
+    // Forget undos and steps older than the rate window
+    private trim(time: number) {
+        const since = time - RATE_WINDOW_MS;
+        while (this.undoTimes.length && this.undoTimes[0] <= since) {
+            this.undoTimes.shift();
+        }
+        while (this.steps.length && this.steps[0].time <= since) {
+            this.steps.shift();
+        }
+    }
+}
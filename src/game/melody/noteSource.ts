@@ -0,0 +1,160 @@
+import type { Midi } from "@tonejs/midi";
+
+export const LEAD_IN_MS = 2000; // Default time between the ball dropping and the first note
+export const PERCUSSION_CHANNEL = 9; // General MIDI reserves channel 10 (zero-based 9) for drums
+
+// A MIDI note flattened out of its track, with its start time shifted to the scene clock
+export interface MelodyNote {
+    midi: number;
+    name: string;
+    time: number; // Milliseconds since the ball dropped
+    duration: number; // Seconds, as Tone.js expects
+    velocity: number; // Normalized 0-1
+    track: number;
+}
+
+// Notes starting together (a chord, or a near miss) share one plank and sound together on impact
+export interface NoteEvent {
+    time: number; // Milliseconds since the ball dropped, the start of the earliest note
+    notes: MelodyNote[]; // Highest pitch first
+}
+
+// Which notes of a MIDI file become planks
+export interface NoteSourceOptions {
+    tracks: number[] | null; // Track indices to include, null for every track
+    channels: number[] | null; // MIDI channels to include, null for every channel
+    excludePercussion: boolean;
+    minPitch: number; // Lowest MIDI note number kept
+    maxPitch: number; // Highest MIDI note number kept
+    highestNoteOnly: boolean; // Keep only the top voice where notes overlap
+    chordWindowMs: number; // Notes starting within this many milliseconds of each other merge into one event
+    ballPerTrack: boolean; // Give every selected track its own ball and planks instead of merging them
+}
+
+export const DEFAULT_NOTE_SOURCE: NoteSourceOptions = {
+    tracks: null,
+    channels: null,
+    excludePercussion: true,
+    minPitch: 0,
+    maxPitch: 127,
+    highestNoteOnly: false,
+    chordWindowMs: 30,
+    ballPerTrack: false
+};
+
+// What the note-source panel shows for each track
+export interface TrackInfo {
+    index: number;
+    name: string;
+    channel: number;
+    instrument: string;
+    program: number; // General MIDI program, 0 to 127
+    percussion: boolean;
+    noteCount: number;
+}
+
+export function describeTracks(midi: Midi): TrackInfo[] {
+    return midi.tracks.map((track, index) => ({
+        index,
+        name: track.name || `Track ${index + 1}`,
+        channel: track.channel,
+        instrument: track.instrument.name,
+        program: track.instrument.number,
+        percussion: isPercussion(track.channel, track.instrument.percussion),
+        noteCount: track.notes.length
+    }));
+}
+
+// Flatten the selected tracks into one time-sorted note list on the scene clock
+export function extractNotes(midi: Midi, options: NoteSourceOptions = DEFAULT_NOTE_SOURCE, leadInMs = LEAD_IN_MS): MelodyNote[] {
+    let notes: MelodyNote[] = midi.tracks.flatMap((track, index) => {
+        if (options.tracks && !options.tracks.includes(index)) return [];
+        if (options.channels && !options.channels.includes(track.channel)) return [];
+        if (options.excludePercussion && isPercussion(track.channel, track.instrument.percussion)) return [];
+
+        // Note getters (name, time, duration) live on the prototype, so copy them explicitly
+        return track.notes
+            .filter(note => note.midi >= options.minPitch && note.midi <= options.maxPitch)
+            .map(note => ({
+                midi: note.midi,
+                name: note.name,
+                time: note.time * 1000, // Convert seconds to milliseconds
+                duration: note.duration,
+                velocity: note.velocity,
+                track: index
+            }));
+    }).sort((a, b) => a.time - b.time || b.midi - a.midi);
+
+    if (options.highestNoteOnly) {
+        notes = keepHighestVoice(notes);
+    }
+
+    // Ensure the first note rings at least `leadInMs` after the ball drops
+    if (notes.length && notes[0].time < leadInMs) {
+        const delay = leadInMs - notes[0].time;
+        notes.forEach(note => note.time += delay);
+    }
+    return notes;
+}
+
+// Merge notes starting within `chordWindowMs` of the first note of a group into one event
+export function groupNoteEvents(notes: MelodyNote[], chordWindowMs: number): NoteEvent[] {
+    const events: NoteEvent[] = [];
+
+    for (const note of notes) {
+        const last = events[events.length - 1];
+        if (last && note.time - last.time <= chordWindowMs) {
+            last.notes.push(note);
+        } else {
+            events.push({ time: note.time, notes: [note] });
+        }
+    }
+    events.forEach(event => event.notes.sort((a, b) => b.midi - a.midi));
+    return events;
+}
+
+export function extractNoteEvents(midi: Midi, options: NoteSourceOptions = DEFAULT_NOTE_SOURCE, leadInMs = LEAD_IN_MS): NoteEvent[] {
+    return groupNoteEvents(extractNotes(midi, options, leadInMs), options.chordWindowMs);
+}
+
+// The note events of each ball: one list per selected track that has notes when `ballPerTrack`
+// is set, otherwise a single list. The tracks share one lead-in, so their balls stay in time,
+// and "highest note only" keeps the top voice of each track rather than of the whole song.
+export function extractBallNoteEvents(midi: Midi, options: NoteSourceOptions = DEFAULT_NOTE_SOURCE, leadInMs = LEAD_IN_MS): NoteEvent[][] {
+    if (!options.ballPerTrack) {
+        return [extractNoteEvents(midi, options, leadInMs)];
+    }
+
+    // A lead-in of zero never shifts, so every track keeps its MIDI times until the shared shift below
+    const tracks = midi.tracks
+        .map((_, index) => index)
+        .filter(index => !options.tracks || options.tracks.includes(index))
+        .map(index => extractNotes(midi, { ...options, tracks: [index] }, 0))
+        .filter(notes => notes.length > 0);
+    if (tracks.length === 0) return [[]];
+
+    const firstTime = Math.min(...tracks.map(notes => notes[0].time));
+    const delay = Math.max(0, leadInMs - firstTime);
+    return tracks.map(notes => {
+        notes.forEach(note => note.time += delay);
+        return groupNoteEvents(notes, options.chordWindowMs);
+    });
+}
+
+function isPercussion(channel: number, instrumentIsPercussion: boolean) {
+    return channel === PERCUSSION_CHANNEL || instrumentIsPercussion;
+}
+
+// Drop every note that starts while a higher one is sounding (or starts with it)
+function keepHighestVoice(notes: MelodyNote[]): MelodyNote[] {
+    const kept: MelodyNote[] = [];
+    let sounding: MelodyNote[] = [];
+
+    for (const note of notes) {
+        sounding = sounding.filter(other => other.time + other.duration * 1000 > note.time);
+        if (sounding.some(other => other.midi > note.midi || (other.midi === note.midi && other.time === note.time))) continue;
+        sounding.push(note);
+        kept.push(note);
+    }
+    return kept;
+}
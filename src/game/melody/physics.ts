@@ -0,0 +1,27 @@
+// Every physical constant a plank layout depends on. Replaying a layout with different values
+// sends the ball somewhere else, so these travel with exported layouts.
+export interface PhysicsParameters {
+    gravity: number; // Meters per second squared, pointing down the screen
+    timestep: number; // Seconds per Rapier step
+    ballRadius: number;
+    ballRestitution: number;
+    ballStart: { x: number; y: number }; // Where the ball drops from, in meters
+    initialVelocity: { x: number; y: number }; // Meters per second
+    plankHalfLength: number;
+    plankHalfThickness: number;
+    plankRestitution: number;
+    scaleFactor: number; // Pixels per physics meter
+}
+
+export const DEFAULT_PHYSICS: PhysicsParameters = {
+    gravity: 9.81,
+    timestep: 1 / 60,
+    ballRadius: 0.3,
+    ballRestitution: 1,
+    ballStart: { x: 0, y: -4 },
+    initialVelocity: { x: 2, y: 10 },
+    plankHalfLength: 0.6,
+    plankHalfThickness: 0.15,
+    plankRestitution: 1.1,
+    scaleFactor: 50
+};
@@ -0,0 +1,28 @@
+import type { NoteEvent } from "./noteSource";
+import type { PhysicsParameters } from "./physics";
+
+// Planks sized by the note they play: a longer note gets a longer plank. The sizes are the
+// planks' real collision boxes, so the solve places, and checks, every plank at its own size,
+// and layouts carry each size along. Planks never get smaller than the physics' size, though,
+// nor thinner for quiet notes: fast passages of short notes then left the solve too little
+// room to aim with. Loudness only shows in how bright the scene draws a plank.
+
+const REFERENCE_DURATION = 0.25; // Notes up to this many seconds keep physics.plankHalfLength
+const MAX_LENGTH_SCALE = 1.6;
+
+export interface PlankSize {
+    halfLength: number; // Meters
+    halfThickness: number;
+}
+
+export function uniformPlankSize(physics: PhysicsParameters): PlankSize {
+    return { halfLength: physics.plankHalfLength, halfThickness: physics.plankHalfThickness };
+}
+
+// A chord's plank follows its longest note
+export function notePlankSize(event: NoteEvent, physics: PhysicsParameters): PlankSize {
+    const duration = Math.max(...event.notes.map(note => note.duration));
+    // Square root, so a whole note is not eight times a quaver's plank
+    const lengthScale = Math.min(Math.max(Math.sqrt(duration / REFERENCE_DURATION), 1), MAX_LENGTH_SCALE);
+    return { halfLength: physics.plankHalfLength * lengthScale, halfThickness: physics.plankHalfThickness };
+}
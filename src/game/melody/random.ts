@@ -0,0 +1,39 @@
+// Deterministic pseudo random numbers (mulberry32), so a song and a seed always solve to the same layout
+export class SeededRandom {
+    private state: number;
+
+    constructor(readonly seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // A float in [0, 1), like Math.random
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // An integer in [min, max]
+    between(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    // A shuffled copy, leaving the input untouched
+    shuffle<T>(items: readonly T[]): T[] {
+        const shuffled = [...items];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = this.between(0, i);
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled;
+    }
+}
+
+export const MAX_SEED = 0xffffffff;
+
+// A fresh seed for when the user did not ask for one
+export function randomSeed(): number {
+    return Math.floor(Math.random() * MAX_SEED);
+}
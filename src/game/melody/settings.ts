@@ -0,0 +1,264 @@
+import { DEFAULT_PHYSICS, type PhysicsParameters } from "./physics";
+import { LEAD_IN_MS } from "./noteSource";
+
+// "planks" solves a plank for every note along the ball's path; "arena" bounces the ball inside
+// a ring of walls instead, timing each flight so a wall sounds every note
+export type MelodyMode = "planks" | "arena";
+
+// "random" tries the fixed plank angles in a seeded random order; "timing" aims each bounce at
+// a readable spot for the next note and sets the plank's restitution to keep the speed in range
+export type PlacementMode = "random" | "timing";
+
+// How the solver picks plank placements. Unlike the physics these do not travel with a
+// layout: a solved layout replays the same whatever placement settings made it.
+export interface PlacementSettings {
+    mode: PlacementMode;
+    plankRotations: number[]; // Candidate plank angles in radians for the random mode
+    minBounceVelocity: number; // Slowest the timing mode lets a bounce send the ball, meters per second
+    maxBounceVelocity: number; // Fastest, meters per second
+    leadInMs: number; // The first note rings at least this long after the ball drops
+    noteSizedPlanks: boolean; // Longer notes get longer planks
+}
+
+// The walls of arena mode
+export interface ArenaSettings {
+    shape: "circle" | "polygon";
+    sides: number; // Walls of the polygon; a circle is made of many short ones
+    radius: number; // Meters from the center to each corner
+    shrink: number; // Share of the radius lost by the last note, 0 to keep the size
+    rotationSpeed: number; // Radians per second, 0 to keep still
+}
+
+// "shake" jolts the view on every plank hit, "punch" zooms in a little and eases back out
+export type CameraImpact = "none" | "shake" | "punch";
+
+// How the playback camera follows the ball. Unlike the rest, these take effect right away.
+export interface CameraSettings {
+    lookAhead: number; // Share of the way from the ball to its next planks the view leans, 0 to 1
+    lookAheadMs: number; // How far ahead a plank counts as one of the next
+    autoZoom: boolean; // Zoom out for a fast ball and to fit the next planks in
+    minZoom: number;
+    maxZoom: number;
+    deadzone: number; // Share of the view the ball moves around in before the camera follows, 0 to 1
+    impact: CameraImpact;
+    impactStrength: number; // 0 to 1
+    overview: boolean; // Show the whole layout once the song is over
+}
+
+// Everything a MusicMelody run can be tuned with, edited in the settings panel
+export interface MelodySettings {
+    mode: MelodyMode;
+    physics: PhysicsParameters;
+    placement: PlacementSettings;
+    arena: ArenaSettings;
+    camera: CameraSettings;
+}
+
+export interface SettingsPreset {
+    name: string;
+    settings: MelodySettings;
+    builtIn: boolean;
+}
+
+export const DEFAULT_PLACEMENT: PlacementSettings = {
+    mode: "timing",
+    plankRotations: [0, 0.15, -0.15, 0.6, -0.6, 0.3, -0.3, 0.9, -0.9, 1.1, -1.1],
+    minBounceVelocity: 5,
+    maxBounceVelocity: 100,
+    leadInMs: LEAD_IN_MS,
+    noteSizedPlanks: true
+};
+
+export const DEFAULT_ARENA: ArenaSettings = {
+    shape: "circle",
+    sides: 6,
+    radius: 6,
+    shrink: 0,
+    rotationSpeed: 0
+};
+
+export const DEFAULT_CAMERA: CameraSettings = {
+    lookAhead: 0.4,
+    lookAheadMs: 1500,
+    autoZoom: true,
+    minZoom: 0.2,
+    maxZoom: 1.2,
+    deadzone: 0.15,
+    impact: "punch",
+    impactStrength: 0.3,
+    overview: true
+};
+
+export const DEFAULT_SETTINGS: MelodySettings = {
+    mode: "planks",
+    physics: DEFAULT_PHYSICS,
+    placement: DEFAULT_PLACEMENT,
+    arena: DEFAULT_ARENA,
+    camera: DEFAULT_CAMERA
+};
+
+const BUILT_IN_PRESETS: SettingsPreset[] = [
+    { name: "Default", settings: DEFAULT_SETTINGS, builtIn: true },
+    {
+        name: "Moon",
+        settings: {
+            ...DEFAULT_SETTINGS,
+            physics: { ...DEFAULT_PHYSICS, gravity: 1.62, initialVelocity: { x: 1, y: 3 } },
+            placement: { ...DEFAULT_PLACEMENT, leadInMs: 4000 }
+        },
+        builtIn: true
+    },
+    {
+        name: "Pinball",
+        settings: {
+            ...DEFAULT_SETTINGS,
+            physics: { ...DEFAULT_PHYSICS, ballRadius: 0.2, plankHalfLength: 0.4, plankRestitution: 1.3 },
+            placement: { ...DEFAULT_PLACEMENT, maxBounceVelocity: 60 }
+        },
+        builtIn: true
+    },
+    {
+        name: "Shrinking Hexagon",
+        settings: {
+            ...DEFAULT_SETTINGS,
+            mode: "arena",
+            arena: { shape: "polygon", sides: 6, radius: 8, shrink: 0.5, rotationSpeed: 0.2 }
+        },
+        builtIn: true
+    }
+];
+
+export const MAX_ARENA_SIDES = 24;
+export const MAX_ARENA_SHRINK = 0.9; // Leaves the ball some room at the end
+export const MIN_ARENA_RADIUS = 1; // Meters
+
+const SETTINGS_KEY = "music-melody-settings";
+const PRESETS_KEY = "music-melody-presets";
+
+// The settings saved by the last session, falling back to the defaults field by field
+export function loadSettings(): MelodySettings {
+    return normalizeSettings(readStorage(SETTINGS_KEY));
+}
+
+export function saveSettings(settings: MelodySettings) {
+    writeStorage(SETTINGS_KEY, settings);
+}
+
+// Built-in presets first, then the user's own in the order they were saved
+export function loadPresets(): SettingsPreset[] {
+    const stored = readStorage(PRESETS_KEY);
+    const userPresets = Array.isArray(stored)
+        ? stored
+            .filter(preset => isObject(preset) && typeof preset.name === "string")
+            .map(preset => ({ name: preset.name as string, settings: normalizeSettings(preset.settings), builtIn: false }))
+        : [];
+    return [...BUILT_IN_PRESETS, ...userPresets];
+}
+
+// Save `settings` under `name`, replacing a user preset of the same name. Built-in presets stay as they are.
+export function savePreset(name: string, settings: MelodySettings): SettingsPreset[] {
+    const presets = loadPresets().filter(preset => !preset.builtIn && preset.name !== name);
+    writeStorage(PRESETS_KEY, [...presets, { name, settings }].map(({ name, settings }) => ({ name, settings })));
+    return loadPresets();
+}
+
+export function deletePreset(name: string): SettingsPreset[] {
+    const presets = loadPresets().filter(preset => !preset.builtIn && preset.name !== name);
+    writeStorage(PRESETS_KEY, presets.map(({ name, settings }) => ({ name, settings })));
+    return loadPresets();
+}
+
+// Fill in whatever a stored (possibly older or hand-edited) settings object is missing
+export function normalizeSettings(value: unknown): MelodySettings {
+    const stored = isObject(value) ? value : {};
+    const physics = isObject(stored.physics) ? stored.physics : {};
+    const placement = isObject(stored.placement) ? stored.placement : {};
+    const arena = isObject(stored.arena) ? stored.arena : {};
+    const camera = isObject(stored.camera) ? stored.camera : {};
+    const minZoom = positiveOr(camera.minZoom, DEFAULT_CAMERA.minZoom);
+    const minBounceVelocity = positiveOr(placement.minBounceVelocity, DEFAULT_PLACEMENT.minBounceVelocity);
+
+    return {
+        mode: stored.mode === "planks" || stored.mode === "arena" ? stored.mode : DEFAULT_SETTINGS.mode,
+        physics: {
+            gravity: numberOr(physics.gravity, DEFAULT_PHYSICS.gravity),
+            timestep: positiveOr(physics.timestep, DEFAULT_PHYSICS.timestep),
+            ballRadius: positiveOr(physics.ballRadius, DEFAULT_PHYSICS.ballRadius),
+            ballRestitution: numberOr(physics.ballRestitution, DEFAULT_PHYSICS.ballRestitution),
+            ballStart: vectorOr(physics.ballStart, DEFAULT_PHYSICS.ballStart),
+            initialVelocity: vectorOr(physics.initialVelocity, DEFAULT_PHYSICS.initialVelocity),
+            plankHalfLength: positiveOr(physics.plankHalfLength, DEFAULT_PHYSICS.plankHalfLength),
+            plankHalfThickness: positiveOr(physics.plankHalfThickness, DEFAULT_PHYSICS.plankHalfThickness),
+            plankRestitution: numberOr(physics.plankRestitution, DEFAULT_PHYSICS.plankRestitution),
+            scaleFactor: positiveOr(physics.scaleFactor, DEFAULT_PHYSICS.scaleFactor)
+        },
+        placement: {
+            mode: placement.mode === "random" || placement.mode === "timing" ? placement.mode : DEFAULT_PLACEMENT.mode,
+            plankRotations: Array.isArray(placement.plankRotations)
+                && placement.plankRotations.length > 0
+                && placement.plankRotations.every((angle: unknown) => typeof angle === "number" && Number.isFinite(angle))
+                ? [...placement.plankRotations]
+                : [...DEFAULT_PLACEMENT.plankRotations],
+            minBounceVelocity,
+            maxBounceVelocity: numberOr(placement.maxBounceVelocity, Math.max(DEFAULT_PLACEMENT.maxBounceVelocity, minBounceVelocity), minBounceVelocity),
+            leadInMs: numberOr(placement.leadInMs, DEFAULT_PLACEMENT.leadInMs, 0),
+            noteSizedPlanks: typeof placement.noteSizedPlanks === "boolean" ? placement.noteSizedPlanks : DEFAULT_PLACEMENT.noteSizedPlanks
+        },
+        arena: {
+            shape: arena.shape === "circle" || arena.shape === "polygon" ? arena.shape : DEFAULT_ARENA.shape,
+            sides: Number.isInteger(arena.sides) && arena.sides >= 3 && arena.sides <= MAX_ARENA_SIDES ? arena.sides : DEFAULT_ARENA.sides,
+            radius: numberOr(arena.radius, DEFAULT_ARENA.radius, MIN_ARENA_RADIUS),
+            shrink: numberOr(arena.shrink, DEFAULT_ARENA.shrink, 0, MAX_ARENA_SHRINK),
+            rotationSpeed: numberOr(arena.rotationSpeed, DEFAULT_ARENA.rotationSpeed)
+        },
+        camera: {
+            lookAhead: numberOr(camera.lookAhead, DEFAULT_CAMERA.lookAhead, 0, 1),
+            lookAheadMs: numberOr(camera.lookAheadMs, DEFAULT_CAMERA.lookAheadMs, 0),
+            autoZoom: typeof camera.autoZoom === "boolean" ? camera.autoZoom : DEFAULT_CAMERA.autoZoom,
+            minZoom,
+            maxZoom: numberOr(camera.maxZoom, Math.max(DEFAULT_CAMERA.maxZoom, minZoom), minZoom),
+            deadzone: numberOr(camera.deadzone, DEFAULT_CAMERA.deadzone, 0, 1),
+            impact: camera.impact === "none" || camera.impact === "shake" || camera.impact === "punch"
+                ? camera.impact
+                : DEFAULT_CAMERA.impact,
+            impactStrength: numberOr(camera.impactStrength, DEFAULT_CAMERA.impactStrength, 0, 1),
+            overview: typeof camera.overview === "boolean" ? camera.overview : DEFAULT_CAMERA.overview
+        }
+    };
+}
+
+function readStorage(key: string): unknown {
+    try {
+        const json = globalThis.localStorage?.getItem(key);
+        return json ? JSON.parse(json) : undefined;
+    } catch {
+        // Private browsing or a corrupt entry: start from the defaults
+        return undefined;
+    }
+}
+
+function writeStorage(key: string, value: unknown) {
+    try {
+        globalThis.localStorage?.setItem(key, JSON.stringify(value));
+    } catch (e) {
+        console.warn(`Could not save ${key}`, e);
+    }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function numberOr(value: unknown, fallback: number, min = -Infinity, max = Infinity): number {
+    return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max ? value : fallback;
+}
+
+function positiveOr(value: unknown, fallback: number): number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function vectorOr(value: unknown, fallback: { x: number; y: number }) {
+    return isObject(value)
+        ? { x: numberOr(value.x, fallback.x), y: numberOr(value.y, fallback.y) }
+        : { ...fallback };
+}
@@ -0,0 +1,603 @@
+import RAPIER from "@dimforge/rapier2d-compat";
+import { Caretaker, Originator, type Memento } from "../memento/MementoConcept";
+import type { NoteEvent } from "./noteSource";
+import type { PhysicsParameters } from "./physics";
+import type { PlacementSettings } from "./settings";
+import { SeededRandom } from "./random";
+import { TrajectoryIndex } from "./trajectoryIndex";
+import { rankTimingCandidates } from "./timingPlacement";
+import { notePlankSize, uniformPlankSize, type PlankSize } from "./plankSize";
+
+/**
+ * The plank layout solve, independent of any renderer: it needs Rapier (initialized by the
+ * caller with `RAPIER.init()`) and the note events, nothing else. The MusicMelody scene runs it
+ * a slice per frame; `npm run solve` runs it to the end in Node.
+ *
+ * The ball drops into an empty world. Whenever the track time reaches a note, the world is
+ * saved and a plank goes in right in front of the ball; when no plank fits, the solve rewinds
+ * to the previous note and tries another one there.
+ *
+ * Songs with several balls solve one ball after another. Each ball only collides with its own
+ * planks (Rapier collision groups), and each solve keeps clear of the balls solved before it:
+ * its planks stay off their paths and its ball never touches their planks.
+ */
+
+export const MAX_SOLVE_UNDOS = 5000; // Give up on a song once it needed this many undos
+export const MAX_BALLS = 16; // One Rapier collision group per ball
+const BALL_SPACING = 4; // Meters between the drop positions of neighbouring balls
+const LAST_NOTE_GAP_MS = 1000; // What the timing placement plans for after the final note
+const CONTACT_TOLERANCE_STEPS = 2; // A timed plank the ball has not touched this many steps after its note misses it
+
+// Where the solver put the plank for one note, and its size, in physics meters
+export interface PlankPlacement extends PlankSize {
+    x: number;
+    y: number;
+    angle: number;
+    restitution: number;
+    noteIndex: number; // Index into the solved note events
+}
+
+// A plank the solve considered for a note, kept for the ghost preview
+export interface PlankCandidate extends PlankSize {
+    x: number;
+    y: number;
+    angle: number;
+    accepted: boolean; // False when it overlapped the ball's earlier path
+}
+
+// Hooks for following a solve as it happens, called from inside `step`
+export interface SolverListener {
+    plankPlaced?(placement: PlankPlacement): void;
+    undone?(noteIndex: number, undoCount: number): void; // The solve went back to retry `noteIndex`
+}
+
+// A ball solved earlier, which this solve has to keep clear of
+export interface SolveObstacle {
+    path: TrajectoryIndex; // From that ball's solver, see getTrajectory
+    placements: PlankPlacement[];
+}
+
+export interface SolverOptions {
+    noteEvents: NoteEvent[];
+    physics: PhysicsParameters;
+    placement: PlacementSettings;
+    seed: number;
+    ball?: number; // Which ball of the song this is, for its drop position and collision group; 0 when left out
+    obstacles?: SolveObstacle[];
+    maxUndos?: number;
+    listener?: SolverListener;
+}
+
+export interface SolveResult {
+    placements: PlankPlacement[];
+    solved: boolean; // False when the solve gave up and only the leading notes have planks
+    undoCount: number;
+}
+
+// A plank in the solve world, with the placement it was made from. Rapier keeps angles and
+// sizes in single precision, so reading them back off the body would not rebuild the same plank.
+interface SolverPlank {
+    body: RAPIER.RigidBody;
+    placement: PlankPlacement;
+}
+
+// Where ball number `ball` drops from: the first at physics.ballStart, the others in a row to its right
+export function ballStartFor(physics: PhysicsParameters, ball: number): { x: number; y: number } {
+    return { x: physics.ballStart.x + ball * BALL_SPACING, y: physics.ballStart.y };
+}
+
+// Collision groups for a ball and its planks: member of group `ball` and colliding with nothing else
+export function ballCollisionGroups(ball: number): number {
+    const group = 1 << ball;
+    return ((group << 16) | group) >>> 0;
+}
+
+// Create a fresh Rapier world holding only ball number `ball` at its drop position
+export function createMelodyWorld(
+    physics: PhysicsParameters,
+    ball = 0,
+    start = ballStartFor(physics, ball)
+): { world: RAPIER.World; ball: RAPIER.RigidBody } {
+    const world = new RAPIER.World({ x: 0, y: physics.gravity });
+    world.timestep = physics.timestep;
+    return { world, ball: createBall(world, physics, ball, start) };
+}
+
+// Drop ball number `ball` into `world` at `start`
+export function createBall(world: RAPIER.World, physics: PhysicsParameters, ball: number, start: { x: number; y: number }): RAPIER.RigidBody {
+    // Create the ball in Rapier physics world. No soft CCD: it lets planks ahead of the ball
+    // steer it early, so the scene, which has every plank in place from the start, would not
+    // replay the solve, which adds them one note at a time.
+    const ballDesc = RAPIER.RigidBodyDesc.dynamic()
+        .setTranslation(start.x, start.y)
+        .setCcdEnabled(true)
+        .setSoftCcdPrediction(0);
+    const body = world.createRigidBody(ballDesc);
+    const ballCollider = RAPIER.ColliderDesc.ball(physics.ballRadius)
+        .setRestitution(physics.ballRestitution) // Set bounce for the ball
+        .setCollisionGroups(ballCollisionGroups(ball))
+        .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+    world.createCollider(ballCollider, body);
+
+    // Apply initial velocity to the ball
+    body.setLinvel(physics.initialVelocity, true);
+    return body;
+}
+
+// Add a fixed plank for ball number `ball`, which the other balls pass through. It is
+// frictionless, so a bounce only changes the ball's speed by the restitution: friction would
+// spin the ball and bleed off speed the timing mode's predictions do not account for.
+export function createPlank(
+    world: RAPIER.World,
+    placement: Omit<PlankPlacement, "noteIndex">,
+    ball: number
+): RAPIER.RigidBody {
+    const plankDesc = RAPIER.RigidBodyDesc.fixed()
+        .setTranslation(placement.x, placement.y)
+        .setRotation(placement.angle);
+    const plankBody = world.createRigidBody(plankDesc);
+    const plankCollider = RAPIER.ColliderDesc.cuboid(placement.halfLength, placement.halfThickness)
+        .setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.DYNAMIC_FIXED)
+        .setCollisionGroups(ballCollisionGroups(ball))
+        .setRestitution(placement.restitution)
+        .setFriction(0)
+        .setFrictionCombineRule(RAPIER.CoefficientCombineRule.Min);
+    world.createCollider(plankCollider, plankBody);
+    return plankBody;
+}
+
+// Solve every ball of a song in one go, each keeping clear of the ones before it
+export function solveBalls(noteEvents: NoteEvent[][], options: Omit<SolverOptions, "noteEvents" | "ball" | "obstacles">): SolveResult[] {
+    const obstacles: SolveObstacle[] = [];
+    return noteEvents.map((events, ball) => {
+        const solver = new MelodySolver({ ...options, noteEvents: events, ball, obstacles });
+        const result = solver.run();
+        obstacles.push({ path: solver.getTrajectory(), placements: result.placements });
+        solver.dispose();
+        return result;
+    });
+}
+
+export class MelodySolver {
+    readonly noteEvents: NoteEvent[];
+    readonly physics: PhysicsParameters;
+    readonly placement: PlacementSettings;
+    readonly seed: number;
+    readonly ball: number;
+
+    private world: RAPIER.World;
+    private ballBody: RAPIER.RigidBody;
+    private eventQueue = new RAPIER.EventQueue(true);
+    private pendingContact?: SolverPlank; // The latest timed plank, until the ball touches it
+    private bounceToCheck = false; // The ball touched a plank last step, so its speed now is the bounce's
+    private random: SeededRandom;
+    private caretaker: Caretaker;
+    private trajectory: TrajectoryIndex; // The ball's path so far, which new planks must stay off
+    private obstaclePaths: TrajectoryIndex[]; // Earlier balls' paths, which new planks must stay off too
+    private obstaclePlanks: PlankGrid; // Earlier balls' planks, which this ball must not touch
+    private maxUndos: number;
+    private listener: SolverListener;
+    private planks: SolverPlank[] = [];
+    private placementByHandle = new Map<number, PlankPlacement>(); // Body userData does not survive a snapshot restore
+    private currentNoteIndex = 0;
+    private trackTime = 0;
+    private position = { x: 0, y: 0 };
+    private velocity = { x: 0, y: 0 };
+    private undoCount = 0;
+    private furthestNoteIndex = 0;
+    private failed = false;
+    private candidateLog = new Map<number, PlankCandidate[]>(); // Latest attempt at each note, by note index
+
+    constructor(options: SolverOptions) {
+        this.noteEvents = options.noteEvents;
+        this.physics = options.physics;
+        this.placement = options.placement;
+        this.seed = options.seed;
+        this.ball = options.ball ?? 0;
+        this.maxUndos = options.maxUndos ?? MAX_SOLVE_UNDOS;
+        this.listener = options.listener ?? {};
+
+        ({ world: this.world, ball: this.ballBody } = createMelodyWorld(this.physics, this.ball));
+        // Every random choice of the solve comes from here, so the seed reproduces the layout
+        this.random = new SeededRandom(this.seed);
+        this.readBall();
+
+        this.caretaker = new Caretaker(new Originator(this.world));
+        this.trajectory = new TrajectoryIndex({ radius: this.physics.ballRadius });
+        this.trajectory.add(this.trackTime, this.position.x, this.position.y);
+
+        // Copied, since the caller may go on adding the balls solved after this one
+        const obstacles = options.obstacles ?? [];
+        this.obstaclePaths = obstacles.map(obstacle => obstacle.path);
+        this.obstaclePlanks = new PlankGrid(this.physics, obstacles.flatMap(obstacle => obstacle.placements));
+    }
+
+    // Done once every note has its plank and the ball has touched the last one, or on giving up
+    isFinished() {
+        return this.failed || (this.currentNoteIndex >= this.noteEvents.length && !this.pendingContact && !this.bounceToCheck);
+    }
+
+    // Advance the solve world by one physics step, placing (and backtracking) planks on the way
+    step() {
+        if (this.isFinished()) return;
+
+        this.world.step(this.eventQueue);
+        this.trackTime += this.world.timestep * 1000;
+        this.readBall();
+
+        // Extend the ball's path so later planks stay off it. A ball flung out of the index's reach is a dead end.
+        const recorded = this.trajectory.add(this.trackTime, this.position.x, this.position.y);
+
+        const contacts = this.drainContacts();
+        const bounceOutOfRange = this.bounceToCheck && this.speedOutOfRange();
+        this.bounceToCheck = contacts.size > 0;
+        if (!recorded
+            || this.obstaclePlanks.touches(this.position.x, this.position.y)
+            || this.missedLatestPlank(contacts)
+            || bounceOutOfRange) {
+            this.retryLatestNote();
+        } else {
+            this.checkForNextPlank();
+        }
+        this.furthestNoteIndex = Math.max(this.furthestNoteIndex, this.currentNoteIndex);
+    }
+
+    // Solve to the end in one go
+    run(): SolveResult {
+        while (!this.isFinished()) {
+            this.step();
+        }
+        return this.getResult();
+    }
+
+    getResult(): SolveResult {
+        return {
+            placements: this.planks.map(plank => plank.placement),
+            solved: !this.failed && this.currentNoteIndex >= this.noteEvents.length && !this.pendingContact && !this.bounceToCheck,
+            undoCount: this.undoCount
+        };
+    }
+
+    // The live solve world, for previews. It is replaced on every undo, so do not hold on to it.
+    getWorld() {
+        return this.world;
+    }
+
+    getBallHandle() {
+        return this.ballBody.handle;
+    }
+
+    getBallPosition(): { x: number; y: number } {
+        return { ...this.position };
+    }
+
+    getPlankBodies(): RAPIER.RigidBody[] {
+        return this.planks.map(plank => plank.body);
+    }
+
+    getTrackTime() {
+        return this.trackTime;
+    }
+
+    getCurrentNoteIndex() {
+        return this.currentNoteIndex;
+    }
+
+    getFurthestNoteIndex() {
+        return this.furthestNoteIndex;
+    }
+
+    getUndoCount() {
+        return this.undoCount;
+    }
+
+    getCandidateLog(): ReadonlyMap<number, PlankCandidate[]> {
+        return this.candidateLog;
+    }
+
+    // The ball's path so far, for the balls solved after this one to keep their planks off
+    getTrajectory(): TrajectoryIndex {
+        return this.trajectory;
+    }
+
+    // Free the Rapier world and the history. Read the result first: the solver is unusable
+    // afterwards, except for its trajectory.
+    dispose() {
+        this.caretaker.clearHistory();
+        this.eventQueue.free();
+        this.world.free();
+    }
+
+    private readBall() {
+        const position = this.ballBody.translation();
+        const velocity = this.ballBody.linvel();
+        this.position = { x: position.x, y: position.y };
+        this.velocity = { x: velocity.x, y: velocity.y };
+    }
+
+    // The colliders the ball started touching this step, the way the scene hears a hit: by a collision event
+    private drainContacts(): Set<number> {
+        const contacts = new Set<number>();
+        this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+            if (started) {
+                contacts.add(handle1);
+                contacts.add(handle2);
+            }
+        });
+        return contacts;
+    }
+
+    // The timing mode only predicts its bounces, so the ball has to really touch the latest plank
+    // within CONTACT_TOLERANCE_STEPS of its note
+    private missedLatestPlank(contacts: Set<number>): boolean {
+        const pending = this.pendingContact;
+        if (!pending) return false;
+
+        const touched = contacts.has(pending.body.collider(0).handle);
+
+        const late = this.trackTime - this.noteEvents[pending.placement.noteIndex].time
+            > CONTACT_TOLERANCE_STEPS * this.world.timestep * 1000;
+        if (touched) {
+            this.pendingContact = undefined;
+            return late;
+        }
+        const nextNote = this.noteEvents[this.currentNoteIndex];
+        return late || (nextNote !== undefined && this.trackTime >= nextNote.time);
+    }
+
+    // The timing mode's speed limits hold for the bounces the simulation actually gives, not only
+    // for the ones it predicted. Rapier reports a contact on the step before its bounce, so this
+    // is checked on the step after, allowing for the one step of gravity since.
+    private speedOutOfRange(): boolean {
+        if (this.placement.mode !== "timing") return false;
+
+        const speed = Math.hypot(this.velocity.x, this.velocity.y);
+        const slack = Math.abs(this.physics.gravity) * this.world.timestep;
+        return speed < this.placement.minBounceVelocity - slack || speed > this.placement.maxBounceVelocity + slack;
+    }
+
+    private checkForNextPlank() {
+        // Get the next note in the sequence
+        const nextNote = this.noteEvents[this.currentNoteIndex];
+
+        // If it's time to place the plank for the next note
+        if (!nextNote) return;
+        if (this.trackTime >= nextNote.time) {
+            // Snapshot the world right before the plank goes in, so a dead end can rewind to here
+            const memento = this.caretaker.save({
+                time: this.trackTime,
+                noteIndex: this.currentNoteIndex,
+                planks: this.planks.map(plank => ({ handle: plank.body.handle, noteIndex: plank.placement.noteIndex }))
+            });
+            this.placeFromMemento(memento);
+        }
+    }
+
+    // Place the plank for the memento's note, backtracking through earlier notes while every angle fails
+    private placeFromMemento(memento: Memento) {
+        while (!this.placePlankForNote(memento.getTriedAngles())) {
+            this.undoCount++;
+            // This note is exhausted: drop its memento and retry the note before with another angle
+            const previous = this.caretaker.undo();
+            if (previous) {
+                // The caretaker freed the world this solver was pointing at
+                this.restoreMemento(previous);
+            }
+            if (!previous || this.undoCount > this.maxUndos) {
+                this.failed = true;
+                return;
+            }
+            this.listener.undone?.(this.currentNoteIndex, this.undoCount);
+            memento = previous;
+        }
+        const plank = this.planks[this.planks.length - 1];
+        if (this.placement.mode === "timing") {
+            this.pendingContact = plank;
+        }
+        this.currentNoteIndex++;
+        this.listener.plankPlaced?.(plank.placement);
+    }
+
+    // The latest plank led to a dead end (an earlier ball's plank, a missed contact, a ball flung
+    // out of reach): rewind to the latest note and try another plank there
+    private retryLatestNote() {
+        const latest = this.caretaker.peek();
+        this.undoCount++;
+        if (!latest || this.undoCount > this.maxUndos) {
+            // Before the first note there is no plank of this ball's to change
+            this.failed = true;
+            return;
+        }
+        this.caretaker.restoreTo(latest.getTime());
+        this.restoreMemento(latest);
+        this.listener.undone?.(this.currentNoteIndex, this.undoCount);
+        this.placeFromMemento(latest);
+    }
+
+    // Point the solver at the world the caretaker just restored
+    private restoreMemento(memento: Memento) {
+        const state = memento.getState();
+        const ballHandle = this.ballBody.handle;
+
+        this.world = this.caretaker.getWorld();
+        this.ballBody = this.world.getRigidBody(ballHandle);
+        this.eventQueue.clear();
+        this.pendingContact = undefined;
+        this.bounceToCheck = false;
+        this.trackTime = state.time;
+        this.currentNoteIndex = state.noteIndex;
+        this.planks = state.planks.map(record => ({
+            body: this.world.getRigidBody(record.handle),
+            placement: this.placementByHandle.get(record.handle)!
+        }));
+        this.readBall();
+        this.trajectory.truncate(this.trackTime, this.position.x, this.position.y);
+    }
+
+    // Try the angles not tried yet from this state, recording each one. False when none fits.
+    private placePlankForNote(triedAngles: number[]): boolean {
+        if (this.placement.mode === "timing") {
+            return this.placeTimedPlankForNote(triedAngles);
+        }
+
+        const size = this.plankSize();
+        const plankDistance = this.physics.ballRadius + size.halfThickness * 2 + 1e-3;
+        const direction = normalize(this.velocity);
+
+        // Shuffle rotations to try randomized plank angles
+        const rotations = this.random.shuffle(this.placement.plankRotations);
+        const log = this.candidateLogFor(triedAngles);
+
+        for (const angle of rotations) {
+            if (triedAngles.includes(angle)) continue;
+            triedAngles.push(angle);
+            const plankDir = rotate(direction, angle);
+            const plankCenter = {
+                x: this.position.x + plankDir.x * plankDistance,
+                y: this.position.y + plankDir.y * plankDistance
+            };
+
+            const newPlank = this.addPlankClearOfPath(plankCenter, angle, this.physics.plankRestitution, size);
+            log.push({ ...plankCenter, ...size, angle, accepted: !!newPlank });
+            if (newPlank) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // Try the planks that send the ball somewhere sensible by the next note, best first
+    private placeTimedPlankForNote(triedAngles: number[]): boolean {
+        const physics = this.physics;
+        const event = this.noteEvents[this.currentNoteIndex];
+        const nextEvent = this.noteEvents[this.currentNoteIndex + 1];
+        const gap = nextEvent ? nextEvent.time - event.time : LAST_NOTE_GAP_MS;
+        const size = this.plankSize();
+
+        const candidates = rankTimingCandidates({
+            position: this.position,
+            velocity: this.velocity,
+            gap: gap / 1000,
+            gravity: physics.gravity,
+            ballRadius: physics.ballRadius,
+            ballRestitution: physics.ballRestitution,
+            plankHalfLength: size.halfLength,
+            plankHalfThickness: size.halfThickness,
+            minSpeed: this.placement.minBounceVelocity,
+            maxSpeed: this.placement.maxBounceVelocity,
+            isOnPath: (x, y) => this.trajectory.intersectsBox(x, y, 0, physics.ballRadius, physics.ballRadius),
+            random: this.random
+        });
+        const log = this.candidateLogFor(triedAngles);
+
+        for (const candidate of candidates) {
+            if (triedAngles.includes(candidate.angle)) continue;
+            triedAngles.push(candidate.angle);
+
+            const newPlank = this.addPlankClearOfPath(candidate.center, candidate.angle, candidate.restitution, size);
+            log.push({ ...candidate.center, ...size, angle: candidate.angle, accepted: !!newPlank });
+            if (newPlank) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // A fresh memento starts a new attempt at its note; retries from the same memento add to it
+    private candidateLogFor(triedAngles: number[]): PlankCandidate[] {
+        if (triedAngles.length === 0 || !this.candidateLog.has(this.currentNoteIndex)) {
+            this.candidateLog.set(this.currentNoteIndex, []);
+        }
+        return this.candidateLog.get(this.currentNoteIndex)!;
+    }
+
+    // The plank for the current note, sized by the note unless the settings keep every plank alike
+    private plankSize(): PlankSize {
+        return this.placement.noteSizedPlanks
+            ? notePlankSize(this.noteEvents[this.currentNoteIndex], this.physics)
+            : uniformPlankSize(this.physics);
+    }
+
+    // Add the current note's plank unless it would lie across the ball's earlier path or any earlier ball's path
+    private addPlankClearOfPath(
+        center: { x: number; y: number },
+        angle: number,
+        restitution: number,
+        size: PlankSize
+    ): RAPIER.RigidBody | undefined {
+        const crossesPath = (path: TrajectoryIndex) => path.intersectsBox(center.x, center.y, angle, size.halfLength, size.halfThickness);
+        if (crossesPath(this.trajectory) || this.obstaclePaths.some(crossesPath)) {
+            return undefined;
+        }
+        const placement: PlankPlacement = { x: center.x, y: center.y, ...size, angle, restitution, noteIndex: this.currentNoteIndex };
+        const body = createPlank(this.world, placement, this.ball);
+        this.placementByHandle.set(body.handle, placement);
+        this.planks.push({ body, placement });
+        return body;
+    }
+}
+
+// Planks bucketed by the cell their center is in, for checking the ball against them every step
+class PlankGrid {
+    private ballRadius: number;
+    private cellSize: number; // A ball touching a plank is at most this far from its center
+    private cells = new Map<string, PlankPlacement[]>();
+
+    constructor(physics: PhysicsParameters, placements: PlankPlacement[]) {
+        this.ballRadius = physics.ballRadius;
+        // Sized for the largest plank, so a neighbouring cell always holds every plank in reach
+        const reach = Math.max(0, ...placements.map(placement => Math.hypot(placement.halfLength, placement.halfThickness)));
+        this.cellSize = reach + physics.ballRadius;
+        for (const placement of placements) {
+            const key = this.cellKey(Math.floor(placement.x / this.cellSize), Math.floor(placement.y / this.cellSize));
+            const cell = this.cells.get(key);
+            if (cell) {
+                cell.push(placement);
+            } else {
+                this.cells.set(key, [placement]);
+            }
+        }
+    }
+
+    // Whether the ball centered at (x, y) touches any of the planks
+    touches(x: number, y: number): boolean {
+        if (this.cells.size === 0) return false;
+
+        const cellX = Math.floor(x / this.cellSize);
+        const cellY = Math.floor(y / this.cellSize);
+        for (let cx = cellX - 1; cx <= cellX + 1; cx++) {
+            for (let cy = cellY - 1; cy <= cellY + 1; cy++) {
+                for (const plank of this.cells.get(this.cellKey(cx, cy)) ?? []) {
+                    // Distance from the ball center to the plank, in the plank's own frame
+                    const cos = Math.cos(plank.angle);
+                    const sin = Math.sin(plank.angle);
+                    const localX = (x - plank.x) * cos + (y - plank.y) * sin;
+                    const localY = -(x - plank.x) * sin + (y - plank.y) * cos;
+                    const outsideX = Math.max(Math.abs(localX) - plank.halfLength, 0);
+                    const outsideY = Math.max(Math.abs(localY) - plank.halfThickness, 0);
+                    if (Math.hypot(outsideX, outsideY) <= this.ballRadius) return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    private cellKey(cx: number, cy: number) {
+        return `${cx},${cy}`;
+    }
+}
+
+// Same arithmetic as Phaser's Vector2.normalize, so seeded layouts did not change when the solve moved here
+function normalize(vector: { x: number; y: number }) {
+    const length = Math.sqrt(vector.x * vector.x + vector.y * vector.y);
+    if (length === 0) return { x: vector.x, y: vector.y };
+    const inverse = 1 / length;
+    return { x: vector.x * inverse, y: vector.y * inverse };
+}
+
+// Same arithmetic as Phaser's Vector2.rotate
+function rotate(vector: { x: number; y: number }, angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return { x: cos * vector.x - sin * vector.y, y: sin * vector.x + cos * vector.y };
+}
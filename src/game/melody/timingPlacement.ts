@@ -0,0 +1,132 @@
+import type { SeededRandom } from "./random";
+
+// Timing-aware plank placement. Instead of trying fixed angles in a random order, work out
+// where each candidate plank would send the ball before the next note and rank the candidates
+// by how readable that flight is: back up to about the same height over a long gap, far enough
+// sideways over a short one that the next plank does not crowd this one, and never faster or
+// slower than the configured limits. Per-plank restitution sets the outgoing speed.
+//
+// The flight is predicted as a frictionless bounce followed by a ballistic arc; the solve still
+// runs the real simulation and backtracks when a prediction does not hold up.
+
+export interface TimingPlacementInput {
+    position: { x: number; y: number }; // Ball center at the note time, meters
+    velocity: { x: number; y: number }; // Ball velocity at the note time, meters per second
+    gap: number; // Seconds until the next note, or a default after the last one
+    gravity: number; // Meters per second squared, down the screen
+    ballRadius: number;
+    ballRestitution: number;
+    plankHalfLength: number;
+    plankHalfThickness: number;
+    minSpeed: number;
+    maxSpeed: number;
+    isOnPath: (x: number, y: number) => boolean; // Whether the ball at (x, y) would touch its earlier path
+    random: SeededRandom;
+}
+
+export interface TimingCandidate {
+    angle: number; // Plank rotation, radians
+    center: { x: number; y: number };
+    restitution: number; // For the plank collider, already adjusted for Rapier's averaging
+    outgoing: { x: number; y: number }; // Predicted ball velocity after the bounce
+    cost: number;
+}
+
+const NORMAL_SPREAD = 65 * Math.PI / 180; // Plank normals tried either side of straight back at the ball
+const NORMAL_STEP = 5 * Math.PI / 180;
+const MIN_BOUNCE = 0.3; // Least effective restitution a plank may give the bounce
+const MAX_PLANK_RESTITUTION = 1; // Planks never add energy, or a few bounces would fling the ball off
+const MAX_FLIGHT_CHECK = 1.5; // Seconds of predicted flight checked against the ball's earlier path
+const FLIGHT_SAMPLES = 12;
+const REVERSE_COST = 0.5; // Added when a bounce turns the ball back the way it came, which soon boxes it in
+const MAX_SIDEWAYS = 8; // Meters the ball may drift sideways before the next note and still read well
+// Gap between the ball and a plank put in its way, as a share of the ball radius: just clear of
+// the band around the ball's path that the trajectory index keeps planks out of
+const CONTACT_GAP = 0.15;
+
+// Every plank that keeps the bounce within the speed limits, best first
+export function rankTimingCandidates(input: TimingPlacementInput): TimingCandidate[] {
+    const { position, velocity, ballRadius, plankHalfThickness, minSpeed, maxSpeed } = input;
+    const speed = Math.hypot(velocity.x, velocity.y);
+    if (speed === 0) return [];
+
+    const heading = Math.atan2(velocity.y, velocity.x);
+    // Fast enough to get a plank's length away before the next note
+    const spacingSpeed = 2 * (input.plankHalfLength + ballRadius) / input.gap;
+    const targetSpeed = Math.min(Math.max(speed, minSpeed, spacingSpeed), maxSpeed);
+    const candidates: TimingCandidate[] = [];
+
+    for (let offset = -NORMAL_SPREAD; offset <= NORMAL_SPREAD + 1e-9; offset += NORMAL_STEP) {
+        // Plank normal, facing the incoming ball
+        const normalAngle = heading + Math.PI + offset;
+        const normal = { x: Math.cos(normalAngle), y: Math.sin(normalAngle) };
+
+        const normalSpeed = velocity.x * normal.x + velocity.y * normal.y; // Negative: the ball approaches
+        const tangent = { x: velocity.x - normalSpeed * normal.x, y: velocity.y - normalSpeed * normal.y };
+        const tangentSpeedSquared = tangent.x ** 2 + tangent.y ** 2;
+
+        // Pick the bounce that brings the outgoing speed closest to the target. Rapier averages
+        // the two restitutions of a contact, so the plank's cap bounds the bounce.
+        const maxBounce = Math.max((MAX_PLANK_RESTITUTION + input.ballRestitution) / 2, MIN_BOUNCE);
+        const bounce = Math.min(Math.max(
+            Math.sqrt(Math.max(0, targetSpeed ** 2 - tangentSpeedSquared)) / Math.abs(normalSpeed),
+            MIN_BOUNCE
+        ), maxBounce);
+        const outgoing = {
+            x: tangent.x - bounce * normalSpeed * normal.x,
+            y: tangent.y - bounce * normalSpeed * normal.y
+        };
+        const outgoingSpeed = Math.hypot(outgoing.x, outgoing.y);
+        if (outgoingSpeed < minSpeed - 1e-6 || outgoingSpeed > maxSpeed + 1e-6) continue;
+
+        // Put the plank in the ball's way along its normal, so the ball meets the middle of its
+        // face. Offset along the velocity instead, a steep plank would be hit on its end. Its face
+        // is all but touching the ball, so the bounce comes on the very next step, on the note.
+        const distance = ballRadius * (1 + CONTACT_GAP) + plankHalfThickness;
+        const center = {
+            x: position.x - normal.x * distance,
+            y: position.y - normal.y * distance
+        };
+
+        candidates.push({
+            angle: Math.atan2(-normal.x, normal.y), // The plank's local y axis is its normal
+            center,
+            restitution: Math.min(Math.max(0, 2 * bounce - input.ballRestitution), MAX_PLANK_RESTITUTION),
+            outgoing,
+            cost: flightCost(input, position, outgoing, targetSpeed) + (outgoing.x * velocity.x < 0 ? REVERSE_COST : 0) + input.random.next() * 0.05
+        });
+    }
+    return candidates.sort((a, b) => a.cost - b.cost);
+}
+
+function flightCost(input: TimingPlacementInput, start: { x: number; y: number }, outgoing: { x: number; y: number }, targetSpeed: number) {
+    const { gap, gravity, ballRadius, plankHalfLength, maxSpeed } = input;
+
+    // Over a long gap the ball should come back up to about the same height instead of falling away
+    const idealRise = Math.max(-gravity * gap / 2, -maxSpeed);
+    let cost = ((outgoing.y - idealRise) / targetSpeed) ** 2;
+
+    // Over a short gap it should still clear this plank sideways before the next one appears
+    const spacing = 2 * (plankHalfLength + ballRadius);
+    const sideways = Math.abs(outgoing.x) * gap;
+    if (sideways < spacing) {
+        cost += ((spacing - sideways) / spacing) ** 2;
+    } else if (sideways > MAX_SIDEWAYS) {
+        cost += ((sideways - MAX_SIDEWAYS) / MAX_SIDEWAYS) ** 2;
+    }
+
+    // Flying back through its own earlier path makes the layout unreadable (and usually unsolvable)
+    const speed = Math.hypot(outgoing.x, outgoing.y);
+    const skip = Math.min(4 * ballRadius / speed, gap); // The start of the flight is next to the path by definition
+    const checked = Math.min(gap, MAX_FLIGHT_CHECK);
+    for (let i = 1; i <= FLIGHT_SAMPLES; i++) {
+        const t = skip + (checked - skip) * i / FLIGHT_SAMPLES;
+        if (t <= skip) break;
+        const x = start.x + outgoing.x * t;
+        const y = start.y + outgoing.y * t + gravity * t * t / 2;
+        if (input.isOnPath(x, y)) {
+            cost += 2;
+        }
+    }
+    return cost;
+}
@@ -0,0 +1,293 @@
+// The path the ball has travelled during a solve, kept outside the Rapier world so plank
+// candidates can be checked against it without a collider per step.
+//
+// The path is stored as capsules (segments swept by the ball radius) in a spatial hash. Nearly
+// collinear steps extend the last segment instead of adding one, so a straight run costs a
+// single segment; every sampled point stays within `tolerance` of its segment, and queries
+// widen the radius by twice that, so the index never rejects less than a per-step sample would.
+// No segment is longer than `maxSegmentLength` and each sits only in the cells its capsule
+// covers, so once `maxSegments` is reached (and the oldest segments are evicted) memory stays
+// bounded however fast the ball goes.
+
+const MAX_COORDINATE = 1e5; // Meters; a ball further out than this has flown off for good
+
+interface TrajectoryPoint {
+    time: number;
+    x: number;
+    y: number;
+}
+
+interface Segment {
+    id: number;
+    ax: number;
+    ay: number;
+    bx: number;
+    by: number;
+    startTime: number; // Track time of the first point, in milliseconds
+    endTime: number; // Track time of the last point
+    points: TrajectoryPoint[]; // The sampled points after the first, kept to check a stretch against
+    cells: string[];
+}
+
+export interface TrajectoryIndexOptions {
+    radius: number; // Ball radius in meters
+    cellSize?: number; // Spatial hash cell size in meters
+    tolerance?: number; // How far a sampled point may sit from its segment, in meters
+    maxSegmentLength?: number; // Meters
+    maxSegments?: number;
+}
+
+export class TrajectoryIndex {
+    private radius: number;
+    private cellSize: number;
+    private tolerance: number;
+    private maxSegmentLength: number;
+    private maxSegments: number;
+    private segments = new Map<number, Segment>();
+    private cells = new Map<string, number[]>(); // Segment ids per cell, oldest first
+    private firstId = 0;
+    private nextId = 0;
+
+    constructor(options: TrajectoryIndexOptions) {
+        this.radius = options.radius;
+        this.cellSize = options.cellSize ?? 2;
+        this.tolerance = options.tolerance ?? options.radius * 0.05;
+        this.maxSegmentLength = options.maxSegmentLength ?? this.cellSize;
+        this.maxSegments = options.maxSegments ?? 20000;
+    }
+
+    size() {
+        return this.segments.size;
+    }
+
+    // How many spatial hash cells hold a segment
+    cellCount() {
+        return this.cells.size;
+    }
+
+    // Record the ball at (x, y) at track time `time`. Times must not go backwards; use truncate to rewind.
+    // False, recording nothing, when the position is not finite or absurdly far out.
+    add(time: number, x: number, y: number): boolean {
+        if (!(Math.abs(x) <= MAX_COORDINATE && Math.abs(y) <= MAX_COORDINATE)) {
+            return false;
+        }
+        const last = this.segments.get(this.nextId - 1);
+        if (!last) {
+            this.push(time, x, y, []);
+            return true;
+        }
+
+        const length = Math.hypot(x - last.ax, y - last.ay);
+        if (length <= this.maxSegmentLength
+            && last.points.every(point => pointSegmentDistance(point.x, point.y, last.ax, last.ay, x, y) <= this.tolerance)) {
+            // Still on the same line: stretch the open segment up to the new point
+            this.unregister(last);
+            last.bx = x;
+            last.by = y;
+            last.endTime = time;
+            last.points.push({ time, x, y });
+            this.register(last);
+            return true;
+        }
+        this.push(last.endTime, last.bx, last.by, [{ time, x, y }]);
+        return true;
+    }
+
+    // Forget everything recorded after `time`, ending the path at (x, y), where the ball was then
+    truncate(time: number, x: number, y: number) {
+        // Evicted segments are gone for good, so never rewind past the oldest one still held
+        while (this.nextId > this.firstId) {
+            const last = this.segments.get(this.nextId - 1)!;
+            this.unregister(last);
+            this.segments.delete(last.id);
+            this.nextId--;
+            if (last.startTime <= time) {
+                // Record the points it kept again, so the segments they end up on still fit them
+                if (this.nextId === this.firstId) {
+                    this.add(last.startTime, last.ax, last.ay);
+                }
+                for (const point of last.points.filter(point => point.time < time)) {
+                    this.add(point.time, point.x, point.y);
+                }
+                break;
+            }
+        }
+        this.add(time, x, y);
+    }
+
+    // Whether a box centered at (x, y), rotated by `angle` with the given half extents, touches the path
+    intersectsBox(x: number, y: number, angle: number, halfWidth: number, halfHeight: number): boolean {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const reach = this.radius + this.tolerance * 2;
+        const extentX = Math.abs(cos) * halfWidth + Math.abs(sin) * halfHeight + reach;
+        const extentY = Math.abs(sin) * halfWidth + Math.abs(cos) * halfHeight + reach;
+
+        const checked = new Set<number>();
+        for (const key of this.cellKeys(x - extentX, y - extentY, x + extentX, y + extentY)) {
+            for (const id of this.cells.get(key) ?? []) {
+                if (checked.has(id)) continue;
+                checked.add(id);
+
+                // Move the segment into the box frame, where the box is axis aligned at the origin
+                const segment = this.segments.get(id)!;
+                const ax = (segment.ax - x) * cos + (segment.ay - y) * sin;
+                const ay = -(segment.ax - x) * sin + (segment.ay - y) * cos;
+                const bx = (segment.bx - x) * cos + (segment.by - y) * sin;
+                const by = -(segment.bx - x) * sin + (segment.by - y) * cos;
+                if (segmentBoxDistance(ax, ay, bx, by, halfWidth, halfHeight) <= reach) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    clear() {
+        this.segments.clear();
+        this.cells.clear();
+        this.firstId = 0;
+        this.nextId = 0;
+    }
+
+    private push(startTime: number, ax: number, ay: number, points: TrajectoryPoint[]) {
+        const end = points[points.length - 1] ?? { time: startTime, x: ax, y: ay };
+
+        // A single step longer than a segment may be goes in as several, each ending on a point
+        // of the step, so a fast ball costs more segments rather than ever larger ones
+        const pieces = Math.ceil(Math.hypot(end.x - ax, end.y - ay) / this.maxSegmentLength);
+        let start = { time: startTime, x: ax, y: ay };
+        for (let i = 1; i < pieces; i++) {
+            const point = {
+                time: startTime + (end.time - startTime) * i / pieces,
+                x: ax + (end.x - ax) * i / pieces,
+                y: ay + (end.y - ay) * i / pieces
+            };
+            this.pushSegment(start.time, start.x, start.y, [point]);
+            start = point;
+        }
+        this.pushSegment(start.time, start.x, start.y, points);
+    }
+
+    private pushSegment(startTime: number, ax: number, ay: number, points: TrajectoryPoint[]) {
+        const end = points[points.length - 1] ?? { time: startTime, x: ax, y: ay };
+        const segment: Segment = {
+            id: this.nextId++,
+            ax,
+            ay,
+            bx: end.x,
+            by: end.y,
+            startTime,
+            endTime: end.time,
+            points,
+            cells: []
+        };
+        this.segments.set(segment.id, segment);
+        this.register(segment);
+
+        while (this.segments.size > this.maxSegments) {
+            this.evictOldest();
+        }
+    }
+
+    private evictOldest() {
+        const oldest = this.segments.get(this.firstId)!;
+        for (const key of oldest.cells) {
+            const ids = this.cells.get(key)!;
+            ids.shift();
+            if (ids.length === 0) this.cells.delete(key);
+        }
+        this.segments.delete(oldest.id);
+        this.firstId++;
+    }
+
+    private register(segment: Segment) {
+        const reach = this.radius + this.tolerance * 2;
+        const half = this.cellSize / 2;
+        // Only the cells the capsule reaches into, not every cell of its bounding box
+        segment.cells = this.cellKeys(
+            Math.min(segment.ax, segment.bx) - reach,
+            Math.min(segment.ay, segment.by) - reach,
+            Math.max(segment.ax, segment.bx) + reach,
+            Math.max(segment.ay, segment.by) + reach,
+            (centerX, centerY) => segmentBoxDistance(
+                segment.ax - centerX, segment.ay - centerY, segment.bx - centerX, segment.by - centerY, half, half
+            ) <= reach
+        );
+        for (const key of segment.cells) {
+            const ids = this.cells.get(key);
+            if (ids) {
+                ids.push(segment.id);
+            } else {
+                this.cells.set(key, [segment.id]);
+            }
+        }
+    }
+
+    // Only ever called on the newest segment, which is last in each of its cells
+    private unregister(segment: Segment) {
+        for (const key of segment.cells) {
+            const ids = this.cells.get(key)!;
+            ids.pop();
+            if (ids.length === 0) this.cells.delete(key);
+        }
+        segment.cells = [];
+    }
+
+    // The cells overlapping the box, or only those whose center passes `covers`
+    private cellKeys(
+        minX: number, minY: number, maxX: number, maxY: number,
+        covers: (centerX: number, centerY: number) => boolean = () => true
+    ): string[] {
+        const keys: string[] = [];
+        for (let cx = Math.floor(minX / this.cellSize); cx <= Math.floor(maxX / this.cellSize); cx++) {
+            for (let cy = Math.floor(minY / this.cellSize); cy <= Math.floor(maxY / this.cellSize); cy++) {
+                if (covers((cx + 0.5) * this.cellSize, (cy + 0.5) * this.cellSize)) {
+                    keys.push(`${cx},${cy}`);
+                }
+            }
+        }
+        return keys;
+    }
+}
+
+function pointSegmentDistance(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+    return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+function segmentsCross(ax: number, ay: number, bx: number, by: number, cx: number, cy: number, dx: number, dy: number): boolean {
+    const d1 = (dx - cx) * (ay - cy) - (dy - cy) * (ax - cx);
+    const d2 = (dx - cx) * (by - cy) - (dy - cy) * (bx - cx);
+    const d3 = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+    const d4 = (bx - ax) * (dy - ay) - (by - ay) * (dx - ax);
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+function segmentSegmentDistance(ax: number, ay: number, bx: number, by: number, cx: number, cy: number, dx: number, dy: number): number {
+    if (segmentsCross(ax, ay, bx, by, cx, cy, dx, dy)) return 0;
+    return Math.min(
+        pointSegmentDistance(ax, ay, cx, cy, dx, dy),
+        pointSegmentDistance(bx, by, cx, cy, dx, dy),
+        pointSegmentDistance(cx, cy, ax, ay, bx, by),
+        pointSegmentDistance(dx, dy, ax, ay, bx, by)
+    );
+}
+
+// Distance from segment AB to an axis-aligned box centered at the origin, zero when they overlap
+function segmentBoxDistance(ax: number, ay: number, bx: number, by: number, halfWidth: number, halfHeight: number): number {
+    const inside = (x: number, y: number) => Math.abs(x) <= halfWidth && Math.abs(y) <= halfHeight;
+    if (inside(ax, ay) || inside(bx, by)) return 0;
+
+    const corners = [[-halfWidth, -halfHeight], [halfWidth, -halfHeight], [halfWidth, halfHeight], [-halfWidth, halfHeight]];
+    let distance = Infinity;
+    for (let i = 0; i < 4; i++) {
+        const [cx, cy] = corners[i];
+        const [dx, dy] = corners[(i + 1) % 4];
+        distance = Math.min(distance, segmentSegmentDistance(ax, ay, bx, by, cx, cy, dx, dy));
+    }
+    return distance;
+}
@@ -1,133 +1,180 @@
-// Memento class to store a snapshot of the ball and planks state
+import RAPIER from "@dimforge/rapier2d-compat";
+
+// A plank as the solve knows it, by rigid body handle. Handles survive a snapshot round trip.
+export interface PlankRecord {
+    handle: number;
+    noteIndex: number;
+}
+
+// The scene state that lives outside the Rapier world
+export interface MelodyState {
+    time: number; // Track time in milliseconds
+    noteIndex: number; // Index of the next note event to place (or play)
+    planks: PlankRecord[];
+}
+
+const DEFAULT_MEMORY_BUDGET = 128 * 1024 * 1024; // Bytes of snapshots the caretaker may hold
+
+// Memento class to store an exact snapshot of the physics world at a note boundary
 export class Memento {
-    private ballState: { x: number, y: number, velocityX: number, velocityY: number };
-    private plankStates: Array<{ x: number, y: number, rotations: number[], handle: number }>;
-    private time: number;
-
-    constructor(ball: any, planks: any[], time: number) {
-        this.ballState = {
-            x: ball.translation().x,
-            y: ball.translation().y,
-            velocityX: ball.linvel().x,
-            velocityY: ball.linvel().y,
+    private snapshot: Uint8Array;
+    private state: MelodyState;
+    // Plank angles already tried from this state, so backtracking here never repeats one
+    private triedAngles: number[] = [];
+
+    constructor(snapshot: Uint8Array, state: MelodyState) {
+        this.snapshot = snapshot;
+        this.state = {
+            time: state.time,
+            noteIndex: state.noteIndex,
+            planks: state.planks.map(plank => ({ ...plank }))
         };
+    }
 
-        this.plankStates = planks.map(plank => ({
-            x: plank.body.translation().x,
-            y: plank.body.translation().y,
-            rotations: [...(plank.userData?.rotations || []), plank.body.rotation()],
-            handle: plank.body.handle
-        }));
+    getSnapshot() {
+        return this.snapshot;
+    }
 
-        this.time = time;
+    getState(): MelodyState {
+        return this.state;
     }
 
-    getBallState() {
-        return this.ballState;
+    getTime() {
+        return this.state.time;
     }
 
-    getPlankStates() {
-        return this.plankStates;
+    getNoteIndex() {
+        return this.state.noteIndex;
     }
 
-    getLastPlankState() {
-        return this.plankStates[this.plankStates.length - 1];
+    getTriedAngles() {
+        return this.triedAngles;
     }
 
-    getTime() {
-        return this.time;
+    getByteSize() {
+        return this.snapshot.byteLength;
     }
 }
 
-// Originator class to create and restore mementos
+// Originator class to create and restore mementos of a Rapier world
 export class Originator {
-    private ball: any;
-    private planks: any[];
-    private world: any;
-    private planksToRemove: any[] = [];
-
-    constructor(world: any, ball: any, planks: any[]) {
-        this.ball = ball;
-        this.planks = planks;
-        this.world = world;
-    }
+    private world: RAPIER.World;
 
-    saveState(time: number): Memento {
-        return new Memento(this.ball, this.planks, time);
+    constructor(world: RAPIER.World) {
+        this.world = world;
     }
 
-    restoreState(memento: Memento, currentPlanks: any[]) {
-        try {
-            const ballState = memento.getBallState();
-            this.ball.setTranslation({ x: ballState.x, y: ballState.y }, true);
-            this.ball.setLinvel({ x: ballState.velocityX, y: ballState.velocityY }, true);
-
-            const plankStates = memento.getPlankStates();
-            let angle;
-            if (currentPlanks.length >= plankStates.length) {
-                const plank = currentPlanks.pop();
-                this.planksToRemove.push(plank.handle);
-                angle = plank.rotations;
-            }
-            return { time: memento.getTime(), angle };
-        } catch (e) {
-            console.warn('Restore error', e);
-        }
-        return { time: 0, handle: -1 };
+    getWorld() {
+        return this.world;
     }
 
-    getPlanksToRemove() {
-        return this.planksToRemove;
+    saveState(state: MelodyState): Memento {
+        return new Memento(this.world.takeSnapshot(), state);
     }
 
-    clearPlanksToRemove() {
-        this.planksToRemove = [];
+    // Rapier restores a snapshot into a new world. The old one is freed, so callers must
+    // look their bodies up again, by handle, in the world returned here.
+    restoreState(memento: Memento): RAPIER.World {
+        const world = RAPIER.World.restoreSnapshot(memento.getSnapshot());
+        // The query pipeline is not part of the snapshot
+        world.updateSceneQueries();
+        this.world.free();
+        this.world = world;
+        return world;
     }
 }
 
-// Caretaker class to store and manage the history of mementos
+// Caretaker class to store and manage the history of mementos, oldest first
 export class Caretaker {
     private mementos: Memento[] = [];
     private originator: Originator;
+    private memoryBudget: number;
+    private byteSize = 0;
 
-    constructor(originator: Originator) {
+    constructor(originator: Originator, memoryBudget = DEFAULT_MEMORY_BUDGET) {
         this.originator = originator;
+        this.memoryBudget = memoryBudget;
     }
 
-    ballHistory() {
-        return this.mementos.map(m => m.getBallState());
+    save(state: MelodyState): Memento {
+        const memento = this.originator.saveState(state);
+        this.mementos.push(memento);
+        this.byteSize += memento.getByteSize();
+        this.enforceBudget();
+        return memento;
     }
 
-    save(time: number) {
-        const memento = this.originator.saveState(time);
-        this.mementos.push(memento);
-        // Limit max mementos
-        if (this.mementos.length > 1000) {
-            this.mementos.shift();
+    // The most recent memento, without rewinding to it
+    peek(): Memento | undefined {
+        return this.mementos[this.mementos.length - 1];
+    }
+
+    // Drop the latest `levels` mementos and rewind the world to the one before them.
+    // Returns undefined, leaving the world alone, when the history does not go back that far.
+    undo(levels = 1): Memento | undefined {
+        if (levels >= this.mementos.length) return undefined;
+
+        for (const dropped of this.mementos.splice(this.mementos.length - levels, levels)) {
+            this.byteSize -= dropped.getByteSize();
         }
+        const memento = this.peek()!;
+        this.originator.restoreState(memento);
+        return memento;
     }
 
-    undo(currentPlanks: any[]) {
-        if (this.mementos.length > 0) {
-            let memento;
-            while ((memento = this.mementos.pop()) && memento.getPlankStates().length === currentPlanks.length) {
-            }
-            if (memento) {
-                return this.originator.restoreState(memento, currentPlanks);
+    // Rewind to the latest memento taken at or before `time`, keeping the later ones
+    restoreTo(time: number): Memento | undefined {
+        const memento = this.findAt(time);
+        if (memento) {
+            this.originator.restoreState(memento);
+        }
+        return memento;
+    }
+
+    findAt(time: number): Memento | undefined {
+        for (let i = this.mementos.length - 1; i >= 0; i--) {
+            if (this.mementos[i].getTime() <= time) {
+                return this.mementos[i];
             }
         }
-        return { time: 0, handle: -1 };
+        return undefined;
     }
 
-    clearHistory() {
-        this.mementos = [];
+    getWorld() {
+        return this.originator.getWorld();
+    }
+
+    size() {
+        return this.mementos.length;
     }
 
-    getPlanksToRemove() {
-        return this.originator.getPlanksToRemove();
+    getByteSize() {
+        return this.byteSize;
     }
 
-    clearPlanksToRemove() {
-        this.originator.clearPlanksToRemove();
+    clearHistory() {
+        this.mementos = [];
+        this.byteSize = 0;
+    }
+
+    // Over budget, thin out the older half of the history: recent notes stay one undo apart,
+    // older ones get sparser, and the very first memento always survives for a full restart.
+    private enforceBudget() {
+        while (this.byteSize > this.memoryBudget && this.mementos.length > 2) {
+            const olderHalf = Math.max(2, Math.floor(this.mementos.length / 2));
+            const kept: Memento[] = [];
+            this.mementos.forEach((memento, i) => {
+                if (i === 0 || i >= olderHalf || i % 2 === 0) {
+                    kept.push(memento);
+                } else {
+                    this.byteSize -= memento.getByteSize();
+                }
+            });
+            if (kept.length === this.mementos.length) {
+                // Only the first and the latest are left and they still do not fit
+                break;
+            }
+            this.mementos = kept;
+        }
     }
 }
@@ -2,315 +2,1015 @@ import Phaser from "phaser";
 import { Midi } from "@tonejs/midi";
 import * as Tone from "tone";
 import RAPIER from "@dimforge/rapier2d-compat";
-import { Caretaker, Originator } from "../memento/MementoConcept";
+import { Caretaker, Memento, Originator } from "../memento/MementoConcept";
+import { EventBus } from "../EventBus";
+import { DEFAULT_SONG, type SongSource } from "../songs";
+import { DEFAULT_NOTE_SOURCE, describeTracks, extractBallNoteEvents, type NoteEvent, type NoteSourceOptions } from "../melody/noteSource";
+import type { PhysicsParameters } from "../melody/physics";
+import { loadSettings, type CameraSettings, type MelodySettings } from "../melody/settings";
+import { randomSeed } from "../melody/random";
+import {
+    MAX_BALLS,
+    MelodySolver,
+    ballStartFor,
+    createBall,
+    createMelodyWorld,
+    createPlank,
+    type PlankCandidate,
+    type PlankPlacement,
+    type SolveObstacle
+} from "../melody/solver";
+import { createLayout, hashSongData, layoutBalls, type BallSolve, type MelodyLayout } from "../melody/layoutFormat";
+import { MetricsCollector, type RunSummary } from "../melody/metrics";
+import { MelodyArena, type ArenaHit } from "../melody/arena";
+import type { PlankSize } from "../melody/plankSize";
+import { CameraDirector, IMPACT_MS, MAX_SHAKE, type Point } from "../melody/cameraDirector";
+import { FALLBACK_MANIFEST, instrumentForProgram } from "../melody/instruments";
+import { INSTRUMENT_LIBRARY_KEY, InstrumentRack, type InstrumentLibrary } from "../melody/instrumentRack";
 
-const SCALE_FACTOR = 50; // Scaling factor to convert pixels to physics meters
-const PLANK_ROTATIONS = [0, 0.15, -0.15, 0.6, -0.6, 0.3, -0.3, 0.9, -0.9, 1.1, -1.1];
-const MIN_BOUNCE_VELOCITY = 5; // Minimum bounce speed
-const MAX_BOUNCE_VELOCITY = 100; // Minimum bounce speed
+const PLANK_COLOR = 0x00ff00;
+const BALL_COLORS = [0xffff00, 0xff66cc, 0x66ccff, 0xff9933, 0xaa88ff, 0x66ff99, 0xff5555, 0xffffff]; // With several balls, planks take their ball's colour
+const PLAYED_PLANK_COLOR = 0x888888;
+const REJECTED_PLANK_COLOR = 0xff4444;
+const GHOST_PATH_COLOR = 0xffffff;
+const GHOST_HORIZON_MS = 3000; // The ghost path looks at most this far ahead
+const SOLVE_PREVIEW_RADIUS = 20; // Meters around the ball in which the solve preview outlines planks
+const CHORD_MARK_RADIUS = 0.05; // Dots drawn along a plank, one per chord note
+const SOLVE_FRAME_BUDGET_MS = 12; // Time the headless solve may take out of each rendered frame
+const PLAYBACK_TAIL_MS = 2000; // Playback keeps going this long after the last note ends
+const PROGRESS_INTERVAL_MS = 50; // How often playback progress goes out to the Vue timeline
+const STATS_INTERVAL_MS = 250; // How often the stats panel gets fresh numbers, in wall-clock time
+const MAX_STEPS_PER_FRAME = 5; // Catch-up budget; further behind the Transport the world catches up over several frames
+const TRANSPORT_BPM = 120; // Song time runs on Transport ticks at this tempo; other tempos play it faster or slower
+const LIT_WALL_COLOR = 0xffffff;
+const WALL_LIGHT_MS = 150; // How long an arena wall stays lit after it sounds a note
+const ARENA_MARGIN = 1; // Meters kept around the arena when the camera frames it
 
-export default class MusicMelody extends Phaser.Scene {
+// A plank living in the Rapier world. Solve-phase planks have no sprite.
+interface Plank {
+    body: RAPIER.RigidBody;
+    ball: number;
+    noteIndex: number; // Into its ball's note events
+    event: NoteEvent;
+    played: boolean;
+    sprite?: Phaser.GameObjects.Rectangle;
+    chordMarks?: Phaser.GameObjects.Arc[];
+}
+
+// An arena wall's sprite, lit for a moment whenever the ball sounds a note off it
+interface ArenaWallSprite {
+    sprite: Phaser.GameObjects.Rectangle;
+    litUntil: number; // Track milliseconds
+}
+
+// A ball in the playback world
+interface Ball {
+    body: RAPIER.RigidBody;
+    sprite: Phaser.GameObjects.Arc;
+    previousPosition: { x: number; y: number }; // Before the latest step, for interpolation
+}
+
+type MelodyPhase = "loading" | "solving" | "playing";
+
+// One point of a predicted ball path, in meters and track milliseconds
+interface GhostPoint {
+    x: number;
+    y: number;
+    time: number;
+}
+
+// What the Vue timeline shows
+export interface PlaybackProgress {
+    time: number; // Milliseconds since the ball dropped
+    duration: number; // Milliseconds until the last note has rung out
+    paused: boolean;
+    rate: number; // Tempo relative to the song, 1 for as written
+}
+
+// What the Vue control panel calls on the scene, which announces itself with `current-scene-ready`
+export interface MelodyControls {
+    restartPlayback(): void;
+    setPaused(paused: boolean): void;
+    setMuted(muted: boolean): void;
+    setVolume(volume: number): void; // 0 (silent) to 1 (full)
+    setReverb(amount: number): void; // Share of every instrument sent to the reverb, 0 to 1
+    setTrackInstrument(track: number, instrument: string): void;
+    setDebugVisible(visible: boolean): void;
+    setCameraFollow(follow: boolean): void;
+    setCameraSettings(camera: CameraSettings): void; // Takes effect right away, without a restart
+    getRunSummary(): RunSummary | undefined; // Undefined until a song has loaded
+}
+
+// Scene data passed through `scene.start`/`scene.restart`
+export interface MusicMelodyData {
+    song?: SongSource;
+    noteSource?: NoteSourceOptions;
+    layout?: MelodyLayout; // Replay this layout instead of solving the song
+    seed?: number; // Seed for the solve, random when left out
+    settings?: MelodySettings; // Physics and placement for the solve, the saved settings when left out
+    instruments?: Record<number, string>; // Instrument id by track, in place of the one its MIDI program maps to
+}
+
+// Song milliseconds to Transport ticks and back, at TRANSPORT_BPM
+function msToTicks(ms: number): number {
+    return Math.round(ms / 1000 * (TRANSPORT_BPM / 60) * Tone.getTransport().PPQ);
+}
+
+function ticksToMs(ticks: number): number {
+    return ticks / Tone.getTransport().PPQ / (TRANSPORT_BPM / 60) * 1000;
+}
+
+// Each ball has its own colour
+function ballColor(ball: number): number {
+    return BALL_COLORS[ball % BALL_COLORS.length];
+}
+
+// A plank's colour tells its note: the pitch class of its lowest note picks the hue, the octave how light it is
+function noteColor(event: NoteEvent): number {
+    const midi = Math.min(...event.notes.map(note => note.midi));
+    const octave = Math.floor(midi / 12) - 1; // MIDI 60 is C4
+    const lightness = Phaser.Math.Clamp(0.3 + (octave - 2) * 0.08, 0.3, 0.75);
+    return Phaser.Display.Color.HSLToColor((midi % 12) / 12, 0.8, lightness).color;
+}
+
+// Louder notes draw brighter planks; a chord goes by its loudest note
+function noteAlpha(event: NoteEvent): number {
+    return 0.25 + 0.6 * Phaser.Math.Clamp(Math.max(...event.notes.map(note => note.velocity)), 0, 1);
+}
+
+export default class MusicMelody extends Phaser.Scene implements MelodyControls {
     private world!: RAPIER.World;
-    private ball!: RAPIER.RigidBody;
-    private ballSprite!: Phaser.GameObjects.Arc;
+    private eventQueue!: RAPIER.EventQueue;
+    private balls: Ball[] = [];
     private cameraFollow!: Phaser.Cameras.Scene2D.Camera;
-    private notes: any[] = []; // Stores MIDI notes with timing info
-    private midiLoaded = false;
-    private plankGroup!: Phaser.GameObjects.Group;
-    private planks: any[] = [];
-    private planksToCheck: any[] = [];
-    private currentNoteIndex = 0;
+    private instruments!: InstrumentRack;
+    private instrumentPicks: Record<number, string> = {};
+    private song?: SongSource;
+    private noteSource: NoteSourceOptions = DEFAULT_NOTE_SOURCE;
+    private settings: MelodySettings;
+    private physicsParams: PhysicsParameters;
+    private importedLayout?: MelodyLayout;
+    private melodyLayout?: MelodyLayout; // The layout being played, solved or imported
+    private songName = DEFAULT_SONG.name;
+    private songHash = "";
+    private seed = 0;
+    private voices: BallSolve[] = []; // Each ball's notes and, once solved, its planks
+    private noteEvents: NoteEvent[] = []; // Every ball's note events in time order, chords merged into one event
+    private phase: MelodyPhase = "loading";
+    private planks: Plank[] = [];
     private caretaker: Caretaker;
-    private currentPos: Phaser.Math.Vector2;
-    private currentVelocity: Phaser.Math.Vector2;
     private trackTime: number = 0;
     private debugGraphics: Phaser.GameObjects.Graphics;
     private debugRectangles: any[] = [];
-    private ballHistory: RAPIER.RigidBody[] = [];
+
+    // Control panel toggles and levels. Like the ghost preview, they outlive a restart.
+    private debugVisible = true;
+    private cameraFollowsBall = true;
+    private volume = 1;
+    private reverb = 0;
+
+    // Playback camera
+    private cameraDirector?: CameraDirector;
+    private overviewPoints: Point[] = []; // Every plank and drop position, for the shot at the end
+
+    // Solve and playback statistics, for the stats panel
+    private metrics?: MetricsCollector;
+    private lastStatsTime = -Infinity;
+
+    // Solve phase bookkeeping. Balls solve one after another, each clear of the ones before.
+    private solver?: MelodySolver;
+    private solveBall = 0;
+    private solveObstacles: SolveObstacle[] = [];
+    private solvedNoteCount = 0; // Note events of the balls solved already
+    private solvedUndoCount = 0; // Their undos
+    private solved = true; // Whether every ball solved so far got all its planks
+    private solveProgressBar: Phaser.GameObjects.Rectangle;
+    private solveProgressOutline: Phaser.GameObjects.Rectangle;
+    private solveProgressText: Phaser.GameObjects.Text;
+
+    // Playback bookkeeping
+    private plankByHandle = new Map<number, Plank>(); // Body userData does not survive a snapshot restore
+    private paused = false;
+    private playbackNoteIndex = 0; // Next note event without a playback memento
+    private lastProgressTime = -Infinity;
+    private songFinished = false; // Whether `song-finished` went out since playback last started or seeked back
+
+    // Arena mode, which bounces a single ball inside walls instead of solving planks
+    private arenaMode = false;
+    private arena?: MelodyArena;
+    private arenaWalls: ArenaWallSprite[] = [];
+    private arenaHits: (ArenaHit & { time: number })[] = []; // Stepped through since the last frame
+    private arenaNotesHit = new Set<number>();
+
+    // Ghost preview. Whether it shows outlives a restart; what it shows does not.
+    private previewVisible = false;
+    private previewGraphics: Phaser.GameObjects.Graphics;
+    private candidateLogs: ReadonlyMap<number, PlankCandidate[]>[] = []; // Latest attempt at each note, per ball, from the solve
+    private ghostPaths: GhostPoint[][] = []; // One per ball
+    private ghostNoteIndex = -1; // Note the ghost paths were predicted from
+    private ghostCandidateIndices: number[] = []; // Each ball's next note at that point
 
     constructor() {
         super("MusicMelody");
     }
 
+    init(data: MusicMelodyData) {
+        // Class field initializers only run once, so reset everything a restart must not inherit
+        this.song = data.song;
+        this.noteSource = data.noteSource ?? DEFAULT_NOTE_SOURCE;
+        this.importedLayout = data.layout;
+        this.seed = data.seed ?? randomSeed();
+        this.instrumentPicks = data.instruments ?? {};
+        this.melodyLayout = undefined;
+        this.settings = data.settings ?? loadSettings();
+        // An imported layout only replays under the physics it was solved with
+        this.physicsParams = data.layout?.physics ?? this.settings.physics;
+        this.arenaMode = !data.layout && this.settings.mode === "arena";
+        this.phase = "loading";
+        this.planks = [];
+        this.balls = [];
+        this.voices = [];
+        this.debugRectangles = [];
+        this.plankByHandle = new Map();
+        this.paused = false;
+        this.candidateLogs = [];
+        this.ghostPaths = [];
+        this.ghostNoteIndex = -1;
+        this.ghostCandidateIndices = [];
+        this.metrics = undefined;
+        this.arena = undefined;
+        this.arenaWalls = [];
+        this.arenaHits = [];
+        this.arenaNotesHit = new Set();
+        this.cameraDirector = undefined;
+        this.overviewPoints = [];
+
+        EventBus.on("load-song", this.loadSong, this);
+        EventBus.on("playback-seek", this.seek, this);
+        EventBus.on("playback-pause", this.setPaused, this);
+        EventBus.on("playback-tempo", this.setTempo, this);
+        EventBus.on("preview-toggle", this.setPreviewVisible, this);
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
+    }
+
     preload() {
-        // Load MIDI file
-        this.load.binary("midi", "/midi/MyHeart.mid");
+        // Load the default MIDI file unless a song or a finished layout was handed over already
+        if (!this.song && !this.importedLayout) {
+            this.load.binary("midi", DEFAULT_SONG.url);
+        }
     }
 
     async create() {
         await RAPIER.init();
         this.debugGraphics = this.add.graphics();
+        this.previewGraphics = this.add.graphics().setDepth(2);
 
-        // Initialize Rapier physics world
-        this.world = new RAPIER.World({ x: 0, y: 9.81 });
+        // Planks sound their note on their track's instrument, from the samples the Preloader decoded
+        const library: InstrumentLibrary | undefined = this.registry.get(INSTRUMENT_LIBRARY_KEY);
+        this.instruments = new InstrumentRack(library ?? { manifest: FALLBACK_MANIFEST, samples: new Map() });
+        this.instruments.setVolume(this.volume);
+        this.instruments.setReverb(this.reverb);
+
+        EventBus.emit("current-scene-ready", this);
+
+        if (this.importedLayout) {
+            this.playImportedLayout(this.importedLayout);
+            return;
+        }
 
         // Load and parse MIDI data
-        const midiData = this.cache.binary.get("midi");
+        const midiData: ArrayBuffer = this.song?.data ?? this.cache.binary.get("midi");
         const midi = new Midi(midiData);
-        this.notes = midi.tracks.flatMap(track => 
-            track.notes.map(note => ({
-                ...note,
-                time: note.time * 1000 // Convert seconds to milliseconds
-            }))
-        ).sort((a, b) => a.time - b.time);
-        
-        this.midiLoaded = true;
-
-        // Ensure the first note rings at least 2 seconds after the ball drops
-        if (this.notes[0].time < 2000) {
-            const delay = 2000 - this.notes[0].time;
-            this.notes.forEach(note => note.time += delay);
-        }
-
-        // Create the ball in Rapier physics world
-        const ballDesc = RAPIER.RigidBodyDesc.dynamic()
-            .setTranslation(0, -4)
-            .setCcdEnabled(true)
-            .setSoftCcdPrediction(5);
-        this.ball = this.world.createRigidBody(ballDesc);
-        const ballCollider = RAPIER.ColliderDesc.ball(0.3)
-            .setRestitution(1) // Set bounce for the ball
-            .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS); // Radius of 0.3 meters
-        this.world.createCollider(ballCollider, this.ball);
-
-        // Apply initial velocity to the ball
-        this.ball.setLinvel({ x: 2, y: 10 }, true); // Adjust x and y for desired initial direction and speed
-
-        // Create Phaser sprite for the ball
-        this.ballSprite = this.add.circle(0, -4 * SCALE_FACTOR, 0.3 * SCALE_FACTOR, 0xffff00, 0.5).setDepth(1);
-        this.currentPos = new Phaser.Math.Vector2(this.ball.translation().x, this.ball.translation().y);
-        this.currentVelocity = new Phaser.Math.Vector2(this.ball.linvel().x, this.ball.linvel().y);
-
-        const originator = new Originator(this.world, this.ball, this.planks);
-        this.caretaker = new Caretaker(originator);
-        this.caretaker.save(this.trackTime);
-
-        // Set up camera to follow the ball
-        this.cameraFollow = this.cameras.main;
-        this.cameraFollow.startFollow(this.ballSprite);
-        this.cameraFollow.setLerp(0.1, 0.1);
-
-        // Create a group for planks with a max size of 200
-        this.plankGroup = this.add.group({
-            maxSize: 200,
-            runChildUpdate: true
+        this.songName = this.song?.name ?? DEFAULT_SONG.name;
+        this.songHash = hashSongData(midiData);
+        // The arena holds a single ball, which plays every selected track
+        const noteSource = this.arenaMode ? { ...this.noteSource, ballPerTrack: false } : this.noteSource;
+        let ballEvents = extractBallNoteEvents(midi, noteSource, this.settings.placement.leadInMs);
+        if (ballEvents.length > MAX_BALLS) {
+            console.warn(`${ballEvents.length} tracks selected, but only ${MAX_BALLS} balls fit; leaving out the rest`);
+            ballEvents = ballEvents.slice(0, MAX_BALLS);
+        }
+        this.setVoices(ballEvents.map((noteEvents, ball) => ({
+            start: ballStartFor(this.physicsParams, ball),
+            track: noteSource.ballPerTrack ? noteEvents[0]?.notes[0].track : undefined,
+            noteEvents,
+            placements: []
+        })));
+        this.assignInstruments(describeTracks(midi));
+        EventBus.emit("song-loaded", {
+            name: this.songName,
+            hash: this.songHash,
+            noteEventCount: this.noteEvents.length,
+            imported: false,
+            arena: this.arenaMode
         });
 
-        // Start MIDI Playback
-        if (Tone.getContext().state !== 'running') {
-            Tone.getContext().resume();
+        if (this.arenaMode) {
+            this.startArena();
         } else {
-            Tone.getTransport().start();
+            this.startSolve();
         }
     }
 
-    update(time: number, delta: number) {
-        if (!this.world || !this.ball) return;
+    update() {
+        if (this.phase === "loading") return;
+
+        if (this.phase === "solving") {
+            // Run the headless solve for a slice of every frame so the progress bar keeps drawing
+            const solver = this.solver!;
+            const sliceStart = performance.now();
+            let steps = 0;
+            while (!solver.isFinished() && performance.now() - sliceStart < SOLVE_FRAME_BUDGET_MS) {
+                solver.step();
+                steps++;
+            }
+            this.metrics?.recordSteps(steps, performance.now() - sliceStart);
+            if (solver.isFinished()) {
+                this.finishBallSolve(solver);
+                return;
+            }
+            this.updateSolveProgress(solver);
+            if (this.previewVisible) {
+                this.drawSolvePreview(solver);
+            }
+            this.updateStats();
+            return;
+        }
 
         while (this.debugRectangles.length > 0) {
             this.debugRectangles.pop().destroy(true);
         }
-        // Update Rapier physics world step
-        this.world.step();
-
-        this.trackTime += this.world.timestep * 1000;
-        this.currentPos.setTo(this.ball.translation().x, this.ball.translation().y);
-        this.currentVelocity.setTo(this.ball.linvel().x, this.ball.linvel().y);
-
-        // Create the ball in Rapier physics world
-        const ballDesc = RAPIER.RigidBodyDesc.fixed()
-            .setTranslation(this.currentPos.x, this.currentPos.y);
-        const bhbody = this.world.createRigidBody(ballDesc);
-        const ballCollider = RAPIER.ColliderDesc.ball(0.3)
-            .setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.FIXED_FIXED)
-            .setSensor(true);
-        this.world.createCollider(ballCollider, bhbody);
-        this.ballHistory.push(bhbody);
-
-        // Save ball position to history
-        this.caretaker.save(this.trackTime);
-
-        // Sync ball sprite position with Rapier body
-        this.ballSprite.setPosition(
-            this.currentPos.x * SCALE_FACTOR,
-            this.currentPos.y * SCALE_FACTOR
-        );
-
-        // Check if at least one plank doesn't intersect with any historical ball
-        let anyPlankSafe;
-        for (const plank of this.planksToCheck) {
-            if (this.isPlankSafe(plank)) {
-                anyPlankSafe = plank;
-                break; // Exit loop if one plank is safe
+        // The Transport is the master clock: step the world at its fixed timestep until it catches up
+        const stepMs = this.world.timestep * 1000;
+        const songTime = this.getTransportTime();
+        const movedBack = songTime < this.trackTime - stepMs;
+        if (movedBack || songTime - this.trackTime > stepMs * MAX_STEPS_PER_FRAME) {
+            // The Transport moved back on its own, or a long stall left the world behind: jump to the
+            // latest memento before the Transport when that saves steps, and let the budget do the rest
+            const memento = this.caretaker.findAt(songTime);
+            if (memento && (movedBack || memento.getTime() > this.trackTime)) {
+                this.seekWorld(memento.getTime());
+            }
+        }
+        const stepsStart = performance.now();
+        let steps = 0;
+        while (this.trackTime + stepMs <= songTime && steps < MAX_STEPS_PER_FRAME) {
+            for (const ball of this.balls) {
+                ball.previousPosition = ball.body.translation();
             }
+            this.playbackStep();
+            this.checkBallPlankCollisions();
+            steps++;
+        }
+        this.metrics?.recordSteps(steps, performance.now() - stepsStart);
+        if (this.arena) {
+            this.showArenaHits();
+            this.syncArenaWalls();
+        }
+
+        // Sync ball sprite positions with their Rapier bodies, in between the last two steps
+        this.syncBallSprites(Phaser.Math.Clamp((songTime - this.trackTime) / stepMs, 0, 1));
+        this.emitPlaybackProgress();
+        if (!this.songFinished && this.trackTime >= this.getPlaybackDuration()) {
+            this.songFinished = true;
+            EventBus.emit("song-finished", {
+                duration: this.getPlaybackDuration(),
+                notesHit: this.arena ? this.arenaNotesHit.size : this.planks.filter(plank => plank.played).length,
+                noteEventCount: this.noteEvents.length
+            });
+        }
+        if (this.cameraFollowsBall && !this.arena) {
+            this.directCamera();
+        }
+        // Nothing was solved for the arena, so there is nothing to preview
+        if (this.previewVisible && !this.arena) {
+            this.drawPlaybackPreview();
+        }
+
+        if (this.debugVisible) {
+            this.debug();
+        }
+        this.updateStats();
+    }
+
+    // Show the predicted path ahead of the ball and the planks the solve weighed for the next notes
+    setPreviewVisible(visible: boolean) {
+        this.previewVisible = visible;
+        this.previewGraphics?.clear();
+    }
+
+    // Play the song again from the ball drop
+    restartPlayback() {
+        this.seek(0);
+        this.setPaused(false);
+    }
+
+    // Mute acts on Tone's master output, so it carries over to the next song too. Volume and reverb
+    // are kept here as well as on the instruments, which a restart builds anew from them.
+    setMuted(muted: boolean) {
+        Tone.getDestination().mute = muted;
+    }
+
+    setVolume(volume: number) {
+        this.volume = volume;
+        this.instruments?.setVolume(volume);
+    }
+
+    setReverb(amount: number) {
+        this.reverb = amount;
+        this.instruments?.setReverb(amount);
+    }
+
+    // Play a track on another instrument from its next note on, without a restart
+    setTrackInstrument(track: number, instrument: string) {
+        this.instruments?.setTrackInstrument(track, instrument);
+    }
+
+    // Outline every Rapier collider over the sprites
+    setDebugVisible(visible: boolean) {
+        this.debugVisible = visible;
+        this.debugGraphics?.clear();
+    }
+
+    // Let the camera director follow the balls, or leave the camera where it is for looking around.
+    // An arena stays in view whole either way.
+    setCameraFollow(follow: boolean) {
+        this.cameraFollowsBall = follow;
+        if (this.phase !== "playing" || !follow) return;
+
+        // Pick up from wherever the camera was left
+        const camera = this.cameraFollow;
+        this.cameraDirector?.cut({ x: camera.midPoint.x, y: camera.midPoint.y, zoom: camera.zoom });
+    }
+
+    setCameraSettings(camera: CameraSettings) {
+        this.settings = { ...this.settings, camera };
+        this.cameraDirector?.setSettings(camera);
+    }
+
+    getRunSummary() {
+        return this.metrics?.summary();
+    }
+
+    // Jump playback to `time` (ms): the Transport moves there and the world follows
+    seek(time: number) {
+        if (this.phase !== "playing") return;
+
+        const target = Phaser.Math.Clamp(time, 0, this.getPlaybackDuration());
+        Tone.getTransport().ticks = msToTicks(target);
+        this.seekWorld(target);
+    }
+
+    setPaused(paused: boolean) {
+        if (this.phase !== "playing") return;
+
+        this.paused = paused;
+        if (paused) {
+            Tone.getTransport().pause();
+        } else {
+            Tone.getTransport().start();
         }
+        this.emitPlaybackProgress(true);
+    }
 
-        if (anyPlankSafe) {
-            // If at least one plank is safe, don't create new sensors
+    // Play the song (notes and ball alike) at `rate` times its written tempo
+    setTempo(rate: number) {
+        if (this.phase !== "playing") return;
+
+        Tone.getTransport().bpm.value = TRANSPORT_BPM * rate;
+        this.emitPlaybackProgress(true);
+    }
+
+    // Rewind or fast-forward the world to `target` (ms) through playback mementos
+    private seekWorld(target: number) {
+        const reached = this.caretaker.peek();
+        if (reached && target >= reached.getTime()) {
+            // Past the furthest point played so far: continue from there instead of from t=0
+            this.restorePlaybackMemento(this.caretaker.restoreTo(reached.getTime())!);
         } else {
-            // If no plank is safe, create new sensors for all angles
+            this.restorePlaybackMemento(this.caretaker.restoreTo(target)!);
         }
-        this.checkForNextPlank();
 
-        // Check for note targets if MIDI is loaded
-        if (this.midiLoaded) {
-            this.checkBallPlankCollisions();
+        // Step silently up to the exact time
+        while (this.trackTime < target) {
+            this.playbackStep();
         }
-        // this.ensureMinimumVelocity();
-        // this.ensureMaximumVelocity();
-
-        // Remove planks that are scheduled for removal
-        const planksToRemove = this.caretaker.getPlanksToRemove();
-        let plankBody;
-        for (const plankHandle of planksToRemove) {
-            plankBody = this.world.getRigidBody(plankHandle);
-            if (plankBody) {
-                (plankBody.userData as any)?.destroy(true);
-                plankBody.setEnabled(false);
-            }
+        this.eventQueue.clear();
+        this.arenaHits = [];
+
+        // Planks due before the new time have been played already
+        for (const plank of this.planks) {
+            this.setPlankPlayed(plank, plank.event.time < target);
+        }
+        if (this.arena) {
+            this.arenaNotesHit = new Set(this.noteEvents.flatMap((event, i) => event.time < target ? [i] : []));
+            this.arenaWalls.forEach(wall => wall.litUntil = -Infinity);
+            this.syncArenaWalls();
+        }
+        if (target < this.getPlaybackDuration()) {
+            this.songFinished = false;
         }
-        this.caretaker.clearPlanksToRemove();
+        for (const ball of this.balls) {
+            ball.previousPosition = ball.body.translation();
+        }
+        this.syncBallSprites();
+        this.emitPlaybackProgress(true);
+    }
 
-        // if (this.world.colliders.len() <= 30)
-            this.debug();
-        // else
-        //     this.debugGraphics.clear();
+    // Restart the scene on another MIDI file, picked from the Vue shell
+    loadSong(data: MusicMelodyData) {
+        this.scene.restart(data);
     }
 
-    private isPlankSafe(plank: RAPIER.Collider): boolean {
-        let intersectBall = false;
-        this.world.intersectionPairsWith(plank, (otherCollider: RAPIER.Collider) => {
-            if (otherCollider.shape.type === RAPIER.ShapeType.Ball) {
-                intersectBall = true;
-            }
+    private shutdown() {
+        EventBus.off("load-song", this.loadSong, this);
+        EventBus.off("playback-seek", this.seek, this);
+        EventBus.off("playback-pause", this.setPaused, this);
+        EventBus.off("playback-tempo", this.setTempo, this);
+        EventBus.off("preview-toggle", this.setPreviewVisible, this);
+
+        if (this.phase === "solving") {
+            this.solver?.dispose();
+            this.solver = undefined;
+            this.solveObstacles = [];
+        } else if (this.phase === "playing") {
+            this.destroyWorld();
+        }
+        this.phase = "loading";
+        this.instruments?.dispose();
+        EventBus.emit("scene-shutdown", this);
+        Tone.getTransport().stop();
+        Tone.getTransport().cancel();
+    }
+
+    // Create a fresh Rapier world holding only the balls at their drop positions
+    private createWorld(): RAPIER.RigidBody[] {
+        const { world, ball } = createMelodyWorld(this.physicsParams, 0, this.voices[0].start);
+        this.world = world;
+        this.eventQueue = new RAPIER.EventQueue(true);
+
+        this.trackTime = 0;
+        this.planks.length = 0;
+        return [ball, ...this.voices.slice(1).map((voice, i) => createBall(world, this.physicsParams, i + 1, voice.start))];
+    }
+
+    // The balls of the song; the merged note events drive the Transport, mementos and progress
+    private setVoices(voices: BallSolve[]) {
+        this.voices = voices;
+        // Stable, so a single ball keeps its own order
+        this.noteEvents = voices.flatMap(voice => voice.noteEvents).sort((a, b) => a.time - b.time);
+    }
+
+    private destroyWorld() {
+        this.eventQueue.free();
+        this.world.free();
+    }
+
+    private startSolve() {
+        this.metrics = new MetricsCollector({
+            song: this.songName,
+            seed: this.seed,
+            placementMode: this.settings.placement.mode,
+            noteEventCount: this.noteEvents.length
         });
-        if (!intersectBall) {
-            plank.setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.DYNAMIC_FIXED);
-            plank.setSensor(false);
-            plank.setRestitution(1.1);
-        }
-        return intersectBall;
-    }
-
-    private checkForNextPlank(passAngles: number[] = []) {
-        if (this.currentNoteIndex >= this.notes.length) return;
-
-        // Get the current time in milliseconds since scene start
-        const currentTime = this.trackTime;
-
-        // Get the next note in the sequence
-        const nextNote = this.notes[this.currentNoteIndex];
-
-        // If it's time to place the plank for the next note
-        if (!nextNote) return;
-        if (currentTime >= nextNote.time) {
-            this.placePlankForNote(passAngles);
-            this.currentNoteIndex++;
-        }
-    }
-
-    private placePlankForNote(passAngles: number[] = []) {
-        const predictedPosition = this.currentPos;
-
-        const direction = new Phaser.Math.Vector2(this.currentVelocity).normalize();
-        
-        // Shuffle rotations to try randomized plank angles
-        Phaser.Utils.Array.Shuffle(PLANK_ROTATIONS);
-        
-        let newPlank;
-        for (const angle of PLANK_ROTATIONS) {
-            if (passAngles.includes(angle)) continue;
-            const plankDir = direction.rotate(angle);
-            const plankCenter = predictedPosition.clone().add(plankDir.clone().multiply({ x: 0.3 + 0.15 * 2 + 1e-3, y: 0.3 + 0.15 * 2 + 1e-3 }));
-            const plankA = plankCenter.clone().add(plankDir.clone().rotate(Phaser.Math.DegToRad(90)).multiply({ x: 0.6, y: 0.6 }));
-            const plankB = plankCenter.clone().subtract(plankDir.clone().rotate(Phaser.Math.DegToRad(90)).multiply({ x: 0.6, y: 0.6 }));
-
-            if ((newPlank = this.wouldOverlapWithHistory(plankA, plankB, plankCenter, angle))) {
-                let plankSprite = this.plankGroup.getFirstDead(false) as Phaser.GameObjects.Rectangle;
-                if (!plankSprite) {
-                    plankSprite = this.add.rectangle(
-                        plankCenter.x * SCALE_FACTOR, 
-                        plankCenter.y * SCALE_FACTOR, 
-                        0.6 * SCALE_FACTOR * 2, 
-                        0.15 * SCALE_FACTOR * 2, 
-                        0x00ff00,
-                        0.5
-                    ).setDepth(1).setRotation(angle);
-                    this.plankGroup.add(plankSprite);
-                } else {
-                    plankSprite.setPosition(plankCenter.x * SCALE_FACTOR, plankCenter.y * SCALE_FACTOR)
-                            .setRotation(angle)
-                            .setActive(true)
-                            .setVisible(true);
+        this.solveObstacles = [];
+        this.solvedNoteCount = 0;
+        this.solvedUndoCount = 0;
+        this.solved = true;
+        this.startBallSolve(0);
+        this.phase = "solving";
+
+        // Progress indicator, pinned to the screen rather than the world
+        const { width, height } = this.scale;
+        this.solveProgressOutline = this.add.rectangle(width / 2, height / 2, 468, 32)
+            .setStrokeStyle(1, 0xffffff)
+            .setScrollFactor(0);
+        this.solveProgressBar = this.add.rectangle(width / 2 - 230, height / 2, 4, 28, 0xffffff)
+            .setOrigin(0, 0.5)
+            .setScrollFactor(0);
+        this.solveProgressText = this.add.text(width / 2, height / 2 - 40, "", {
+            fontFamily: "Arial", fontSize: 20, color: "#ffffff", align: "center"
+        }).setOrigin(0.5).setScrollFactor(0);
+    }
+
+    private startBallSolve(ball: number) {
+        this.solveBall = ball;
+        this.solver = new MelodySolver({
+            noteEvents: this.voices[ball].noteEvents,
+            physics: this.physicsParams,
+            placement: this.settings.placement,
+            seed: this.seed,
+            ball,
+            obstacles: this.solveObstacles,
+            listener: {
+                plankPlaced: placement => EventBus.emit("plank-placed", { ...placement, ball }),
+                undone: (noteIndex, undoCount) => {
+                    this.metrics?.recordUndo();
+                    EventBus.emit("undo-performed", { noteIndex, undoCount: this.solvedUndoCount + undoCount, ball });
                 }
-                plankSprite.body = newPlank as any;
-                (plankSprite as any).rotations = [angle, ...passAngles];
-                newPlank.userData = plankSprite;
-                this.planks.push(plankSprite);
-                break;
             }
+        });
+    }
+
+    private updateSolveProgress(solver: MelodySolver) {
+        const furthest = this.solvedNoteCount + solver.getFurthestNoteIndex();
+        const undoCount = this.solvedUndoCount + solver.getUndoCount();
+        const progress = this.noteEvents.length ? furthest / this.noteEvents.length : 1;
+        const ballLabel = this.voices.length > 1 ? ` ball ${this.solveBall + 1} of ${this.voices.length}` : "";
+        this.solveProgressBar.width = 4 + (460 * progress);
+        this.solveProgressText.setText(
+            `Solving plank layout${ballLabel}... ${furthest} / ${this.noteEvents.length} notes (${undoCount} undos)`
+        );
+        EventBus.emit("solve-progress", {
+            noteIndex: this.solvedNoteCount + solver.getCurrentNoteIndex(),
+            furthestNoteIndex: furthest,
+            noteEventCount: this.noteEvents.length,
+            undoCount,
+            ball: this.solveBall,
+            ballCount: this.voices.length
+        });
+    }
+
+    // Keep the ball's planks, and its path for the next balls to keep clear of, then solve the next ball
+    private finishBallSolve(solver: MelodySolver) {
+        const result = solver.getResult();
+        const voice = this.voices[this.solveBall];
+        voice.placements = result.placements;
+        if (!result.solved) {
+            console.warn(
+                `Solve of ball ${this.solveBall + 1} gave up after ${result.undoCount} undos, `
+                + `playing ${result.placements.length} of its ${voice.noteEvents.length} notes`
+            );
+        }
+
+        this.candidateLogs[this.solveBall] = solver.getCandidateLog();
+        this.solveObstacles.push({ path: solver.getTrajectory(), placements: result.placements });
+        this.solvedNoteCount += voice.noteEvents.length;
+        this.solvedUndoCount += result.undoCount;
+        this.solved &&= result.solved;
+        solver.dispose();
+
+        if (this.solveBall + 1 < this.voices.length) {
+            this.startBallSolve(this.solveBall + 1);
+        } else {
+            this.finishSolve();
         }
-        if (!newPlank) {
-            console.log('Undo');
-            const undoData = this.caretaker.undo(this.planks);
-            this.trackTime = undoData.time;
-            this.currentNoteIndex--;
-            this.checkForNextPlank(undoData.angle);
-        }
-    }
-
-    private wouldOverlapWithHistory(plankA: Phaser.Math.Vector2, plankB: Phaser.Math.Vector2, plankCenter: Phaser.Math.Vector2, angle: number): false | RAPIER.RigidBody {
-        // const pastStates = this.caretaker.ballHistory();
-        // for (let i = 1; i < pastStates.length - 1; i++) {
-        //     const state1 = pastStates[i];
-        //     const state2 = pastStates[i - 1];
-        //     const ballPos = new Phaser.Math.Vector2(state1.x, state1.y);
-
-        //     const distanceToSegment = this.pointToSegmentDistance(plankA, plankB, ballPos);
-        //     if (distanceToSegment <= (0.3 + 0.6 * 2)) {
-        //         return true; // Intersection found
-        //     }
-        // }
-        // return false; // No intersection found
-        
-        const plankDesc = RAPIER.RigidBodyDesc.fixed()
-            .setTranslation(plankCenter.x, plankCenter.y)
-            .setRotation(angle);
-        const plankBody = this.world.createRigidBody(plankDesc);
-        const plankCollider = RAPIER.ColliderDesc.cuboid(0.6, 0.15) // Plank size
-            .setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.FIXED_FIXED)
-            .setSensor(true);
-        const collider = this.world.createCollider(plankCollider, plankBody);
-
-        let intersectBall = false;
-        this.world.intersectionPairsWith(collider, (otherCollider: RAPIER.Collider) => {
-            if (otherCollider.shape.type === RAPIER.ShapeType.Ball) {
-                intersectBall = true;
+    }
+
+    private finishSolve() {
+        const placed = this.voices.reduce((sum, voice) => sum + voice.placements.length, 0);
+        this.metrics?.finishSolve(placed, this.solved);
+        this.solver = undefined;
+        this.solveObstacles = [];
+        this.solveProgressBar.destroy();
+        this.solveProgressOutline.destroy();
+        this.solveProgressText.destroy();
+
+        this.melodyLayout = createLayout(
+            { name: this.songName, hash: this.songHash, noteEventCount: this.noteEvents.length },
+            this.physicsParams,
+            this.voices,
+            this.solved,
+            this.seed
+        );
+        this.startPlayback();
+    }
+
+    // Arena mode has nothing to solve: the walls time every bounce as the ball goes
+    private startArena() {
+        this.metrics = new MetricsCollector({
+            song: this.songName,
+            seed: this.seed,
+            placementMode: null,
+            noteEventCount: this.noteEvents.length
+        });
+        this.metrics.finishSolve(this.noteEvents.length, true);
+        this.startPlayback();
+    }
+
+    // Replay a layout exported earlier, without solving: its planks carry their own notes
+    private playImportedLayout(layout: MelodyLayout) {
+        this.melodyLayout = layout;
+        this.songName = layout.song.name;
+        this.songHash = layout.song.hash;
+        this.seed = layout.seed ?? this.seed;
+        this.setVoices(layoutBalls(layout));
+        // A layout carries no MIDI programs, so its tracks start on the default instrument
+        this.assignInstruments([...new Set(this.noteEvents.flatMap(event => event.notes.map(note => note.track)))]
+            .sort((a, b) => a - b)
+            .map(index => ({ index, name: `Track ${index + 1}` })));
+        EventBus.emit("song-loaded", {
+            name: this.songName,
+            hash: this.songHash,
+            noteEventCount: this.noteEvents.length,
+            imported: true,
+            arena: false
+        });
+        this.metrics = new MetricsCollector({
+            song: this.songName,
+            seed: this.seed,
+            placementMode: null,
+            noteEventCount: this.noteEvents.length
+        });
+        this.metrics.finishSolve(layout.planks.length, layout.solved);
+        this.startPlayback();
+    }
+
+    // Put each track that has notes on the instrument picked for it, or else the one its program
+    // maps to, and tell the instrument panel
+    private assignInstruments(tracks: { index: number; name: string; program?: number; percussion?: boolean }[]) {
+        const manifest = this.instruments.manifest;
+        const playing = new Set(this.noteEvents.flatMap(event => event.notes.map(note => note.track)));
+        const assigned = tracks.filter(track => playing.has(track.index)).map(track => {
+            const programInstrument = track.program === undefined
+                ? manifest.defaultInstrument
+                : instrumentForProgram(manifest, track.program, track.percussion ?? false);
+            this.instruments.setTrackInstrument(track.index, this.instrumentPicks[track.index] ?? programInstrument);
+            return {
+                track: track.index,
+                name: track.name,
+                instrument: this.instruments.instrumentFor(track.index),
+                programInstrument
+            };
+        });
+        EventBus.emit("instruments-ready", {
+            instruments: manifest.instruments.map(instrument => ({
+                id: instrument.id,
+                name: instrument.name,
+                sampled: this.instruments.isSampled(instrument.id)
+            })),
+            tracks: assigned
+        });
+    }
+
+    // Replay the solved layout from t=0 in a clean world
+    private startPlayback() {
+        const bodies = this.createWorld();
+        this.phase = "playing";
+        this.paused = false;
+        this.playbackNoteIndex = 0;
+        this.lastProgressTime = -Infinity;
+        this.songFinished = false;
+        this.previewGraphics.clear();
+
+        // Every plank is in place from the start: the solve kept each one off every ball's path
+        this.voices.forEach((voice, ball) => {
+            for (const placement of voice.placements) {
+                this.addPlank(placement, ball);
             }
         });
-        if (intersectBall) {
-            collider.setEnabled(false);
-            return false;
-        } else {
-            collider.setActiveCollisionTypes(RAPIER.ActiveCollisionTypes.DYNAMIC_FIXED);
-            collider.setSensor(false);
-            collider.setRestitution(1.1);
+
+        // Create a Phaser sprite for each ball
+        const { ballRadius, scaleFactor } = this.physicsParams;
+        this.balls = bodies.map((body, ball) => {
+            const start = body.translation();
+            const sprite = this.add.circle(
+                start.x * scaleFactor,
+                start.y * scaleFactor,
+                ballRadius * scaleFactor,
+                ballColor(ball),
+                0.5
+            ).setDepth(1);
+            return { body, sprite, previousPosition: start };
+        });
+        if (this.arenaMode) {
+            this.createArena(bodies[0]);
         }
-        return plankBody;
 
-        // const pastStates = this.caretaker.ballHistory();
-        // for (let i = 1; i < pastStates.length - 1; i++) {
-        //     const state1 = pastStates[i];
-        //     const state2 = pastStates[i - 1];
-        //     const ballRectangle = this.createRectangleBetweenPoints(state1.x * SCALE_FACTOR, state1.y * SCALE_FACTOR, state2.x * SCALE_FACTOR, state2.y * SCALE_FACTOR, 0.3 * SCALE_FACTOR);
-        //     const plankRectangle = this.createRectangleBetweenPoints(plankA.x * SCALE_FACTOR, plankA.y * SCALE_FACTOR, plankB.x * SCALE_FACTOR, plankB.y * SCALE_FACTOR, 0.15 * SCALE_FACTOR);
+        // The camera director follows the balls from where they drop, and shows every plank at the end
+        const camera = this.cameras.main;
+        const drop = this.balls[0].sprite;
+        this.cameraFollow = camera;
+        camera.setZoom(1).centerOn(drop.x, drop.y);
+        this.cameraDirector = new CameraDirector(this.settings.camera, { width: camera.width, height: camera.height }, {
+            x: drop.x,
+            y: drop.y,
+            zoom: 1
+        });
+        this.overviewPoints = [
+            ...this.planks.flatMap(plank => plank.sprite ? [{ x: plank.sprite.x, y: plank.sprite.y }] : []),
+            ...this.balls.map(ball => ({ x: ball.sprite.x, y: ball.sprite.y }))
+        ];
+        if (this.arena) {
+            this.frameArena();
+        }
+
+        // Playback keeps a memento at t=0 and at every note, for the timeline to seek through
+        this.caretaker = new Caretaker(new Originator(this.world));
+        this.savePlaybackMemento();
+
+        if (this.melodyLayout) {
+            EventBus.emit("layout-ready", this.melodyLayout);
+        }
+
+        // Start MIDI Playback. The ball waits for the Transport, which waits for the audio context
+        // to be allowed to run, so a click on the canvas also counts as the user gesture it needs.
+        this.scheduleNotes();
+        if (Tone.getContext().state !== "running") {
+            this.input.once(Phaser.Input.Events.POINTER_DOWN, () => Tone.start());
+        }
+        Tone.getTransport().start();
+    }
+
+    // Put every note on the Transport at its exact MIDI time, in ticks so tempo changes stretch it
+    private scheduleNotes() {
+        const transport = Tone.getTransport();
+        transport.stop();
+        transport.cancel();
+        transport.bpm.value = TRANSPORT_BPM;
+        transport.ticks = 0;
+
+        for (const event of this.noteEvents) {
+            transport.schedule(time => {
+                for (const note of event.notes) {
+                    this.instruments.play(note, time);
+                }
+            }, `${msToTicks(event.time)}i`);
+        }
+    }
+
+    // Song time in milliseconds, as heard now (the Transport's own clock runs a lookahead ahead)
+    private getTransportTime() {
+        return ticksToMs(Tone.getTransport().getTicksAtTime(Tone.immediate()));
+    }
+
+    // Advance the playback world one step, keeping a memento at each note boundary it crosses
+    private playbackStep() {
+        const stepMs = this.world.timestep * 1000;
+        this.arena?.beforeStep(this.trackTime + stepMs);
+        this.world.step(this.eventQueue);
+        this.trackTime += stepMs;
+        const hit = this.arena?.afterStep(this.trackTime);
+        if (hit) {
+            this.arenaHits.push({ ...hit, time: this.trackTime });
+        }
+
+        while (this.playbackNoteIndex < this.noteEvents.length
+            && this.trackTime >= this.noteEvents[this.playbackNoteIndex].time) {
+            this.playbackNoteIndex++;
+            this.savePlaybackMemento();
+        }
+    }
+
+    private savePlaybackMemento() {
+        this.caretaker.save({
+            time: this.trackTime,
+            noteIndex: this.playbackNoteIndex,
+            planks: this.planks.map(plank => ({ handle: plank.body.handle, noteIndex: plank.noteIndex }))
+        });
+    }
+
+    private restorePlaybackMemento(memento: Memento) {
+        const state = memento.getState();
+
+        this.world = this.caretaker.getWorld();
+        for (const ball of this.balls) {
+            ball.body = this.world.getRigidBody(ball.body.handle);
+        }
+        this.trackTime = state.time;
+        this.playbackNoteIndex = state.noteIndex;
+        for (const plank of this.planks) {
+            plank.body = this.world.getRigidBody(plank.body.handle);
+        }
+        this.arena?.restore(this.world, state.time);
+    }
+
+    private getPlaybackDuration() {
+        const lastEvent = this.noteEvents[this.noteEvents.length - 1];
+        if (!lastEvent) return PLAYBACK_TAIL_MS;
+
+        const longestNote = Math.max(...lastEvent.notes.map(note => note.duration));
+        return lastEvent.time + longestNote * 1000 + PLAYBACK_TAIL_MS;
+    }
+
+    private emitPlaybackProgress(force = false) {
+        if (!force && Math.abs(this.trackTime - this.lastProgressTime) < PROGRESS_INTERVAL_MS) return;
+
+        this.lastProgressTime = this.trackTime;
+        const progress: PlaybackProgress = {
+            time: this.trackTime,
+            duration: this.getPlaybackDuration(),
+            paused: this.paused,
+            rate: Tone.getTransport().bpm.value / TRANSPORT_BPM
+        };
+        EventBus.emit("playback-progress", progress);
+    }
+
+    // `alpha` blends from the position before the latest step (0) to the current one (1)
+    private syncBallSprites(alpha = 1) {
+        for (const ball of this.balls) {
+            const current = ball.body.translation();
+            const previous = ball.previousPosition;
+            ball.sprite.setPosition(
+                Phaser.Math.Linear(previous.x, current.x, alpha) * this.physicsParams.scaleFactor,
+                Phaser.Math.Linear(previous.y, current.y, alpha) * this.physicsParams.scaleFactor
+            );
+        }
+    }
+
+    // Hand the camera director the balls and the planks they hit next, and put the camera where it says
+    private directCamera() {
+        const lookAheadUntil = this.trackTime + this.settings.camera.lookAheadMs;
+        const upcoming = this.planks
+            .filter(plank => !plank.played && plank.event.time >= this.trackTime && plank.event.time <= lookAheadUntil)
+            .flatMap(plank => plank.sprite ? [{ x: plank.sprite.x, y: plank.sprite.y }] : []);
+        const speed = Math.max(...this.balls.map(ball => {
+            const velocity = ball.body.linvel();
+            return Math.hypot(velocity.x, velocity.y);
+        }));
+
+        const shot = this.cameraDirector!.update({
+            balls: this.balls.map(ball => ({ x: ball.sprite.x, y: ball.sprite.y })),
+            speed,
+            upcoming,
+            overview: this.songFinished ? this.overviewPoints : undefined
+        });
+        this.cameraFollow.setZoom(shot.zoom).centerOn(shot.x, shot.y);
+    }
+
+    // Each hit shakes the view or punches the zoom in, as the camera settings say
+    private cameraImpact() {
+        const { impact, impactStrength } = this.settings.camera;
+        if (!this.cameraFollowsBall || impactStrength === 0) return;
+
+        if (impact === "shake") {
+            this.cameraFollow.shake(IMPACT_MS, MAX_SHAKE * impactStrength);
+        } else if (impact === "punch") {
+            this.cameraDirector?.impact();
+        }
+    }
+
+    // Build the arena around the ball, which starts in its middle, with a sprite per wall
+    private createArena(ball: RAPIER.RigidBody) {
+        this.arena = new MelodyArena({
+            world: this.world,
+            ball,
+            settings: this.settings.arena,
+            ballRadius: this.physicsParams.ballRadius,
+            noteEvents: this.noteEvents,
+            minSpeed: this.settings.placement.minBounceVelocity,
+            maxSpeed: this.settings.placement.maxBounceVelocity
+        });
+        this.arenaWalls = this.arena.getWalls(0).map(() => ({
+            sprite: this.add.rectangle(0, 0, 1, 1).setDepth(1),
+            litUntil: -Infinity
+        }));
+        this.syncArenaWalls();
+    }
+
+    // Light each wall the ball sounded a note off since the last frame
+    private showArenaHits() {
+        for (const hit of this.arenaHits) {
+            this.arenaWalls[hit.wall].litUntil = hit.time + WALL_LIGHT_MS;
+            if (this.arenaNotesHit.has(hit.noteIndex)) continue;
+
+            this.arenaNotesHit.add(hit.noteIndex);
+            this.metrics?.recordNoteHit(hit.noteIndex);
+            EventBus.emit("note-hit", {
+                noteIndex: hit.noteIndex,
+                ball: 0,
+                time: hit.time,
+                event: this.noteEvents[hit.noteIndex]
+            });
+            this.cameraImpact();
+        }
+        this.arenaHits = [];
+    }
 
-        //     const distanceToSegment = this.getShortestDistance(ballRectangle, plankRectangle);
-        //     if (distanceToSegment <= 10) {
-        //         return true; // Intersection found
-        //     }
-        // }
-        // return false; // No intersection found
+    // The walls shrink and turn with the song, so their sprites follow them every frame
+    private syncArenaWalls() {
+        const scale = this.physicsParams.scaleFactor;
+        this.arena!.getWalls(this.trackTime).forEach((wall, i) => {
+            const { sprite, litUntil } = this.arenaWalls[i];
+            sprite.setPosition(wall.x * scale, wall.y * scale)
+                .setRotation(wall.angle)
+                .setSize(wall.halfLength * 2 * scale, wall.halfThickness * 2 * scale)
+                .setFillStyle(litUntil > this.trackTime ? LIT_WALL_COLOR : PLANK_COLOR, 0.5);
+        });
+    }
+
+    // Fit the whole arena, at its starting size, on screen
+    private frameArena() {
+        const camera = this.cameraFollow;
+        const scale = this.physicsParams.scaleFactor;
+        const size = (this.settings.arena.radius + ARENA_MARGIN) * 2 * scale;
+        camera.stopFollow();
+        camera.setZoom(Math.min(camera.width / size, camera.height / size));
+        camera.centerOn(this.arena!.center.x * scale, this.arena!.center.y * scale);
+    }
+
+    // With several balls planks take their ball's colour. A lone ball's planks are coloured by their
+    // notes, and outlines with no note to go by keep the classic green.
+    private plankColor(ball: number, event?: NoteEvent) {
+        if (this.voices.length > 1) return ballColor(ball);
+        return event ? noteColor(event) : PLANK_COLOR;
+    }
+
+    private setPlankPlayed(plank: Plank, played: boolean) {
+        const color = played ? PLAYED_PLANK_COLOR : this.plankColor(plank.ball, plank.event);
+        plank.played = played;
+        plank.sprite?.setFillStyle(color, noteAlpha(plank.event));
+        plank.chordMarks?.forEach(mark => mark.setFillStyle(played ? PLAYED_PLANK_COLOR : 0xffffff));
     }
 
     private createRectangleBetweenPoints(startX: number, startY: number, endX: number, endY: number, width: number) {
@@ -337,42 +1037,57 @@ export default class MusicMelody extends Phaser.Scene {
         return Math.sqrt(horizontalDistance ** 2 + verticalDistance ** 2);
     }
 
-    private addPlank(position: RAPIER.Vector, rotations: number[], createSprite: boolean = true) {
-        const plankDesc = RAPIER.RigidBodyDesc.fixed()
-            .setTranslation(position.x, position.y)
-            .setRotation(rotations[0]);
-        const plankBody = this.world.createRigidBody(plankDesc);
-        const plankCollider = RAPIER.ColliderDesc.cuboid(0.6, 0.15) // Plank size
-            .setRestitution(1.1)
-            .setSensor(!createSprite);
-        this.world.createCollider(plankCollider, plankBody);
-
-        if (createSprite) {
-            let plankSprite = this.plankGroup.getFirstDead(false) as Phaser.GameObjects.Rectangle;
-            if (!plankSprite) {
-                plankSprite = this.add.rectangle(
-                    position.x * SCALE_FACTOR, 
-                    position.y * SCALE_FACTOR, 
-                    0.6 * SCALE_FACTOR * 2, 
-                    0.15 * SCALE_FACTOR * 2, 
-                    0x00ff00,
-                    0.5
-                ).setDepth(1).setRotation(rotations[0]);
-                this.plankGroup.add(plankSprite);
-            } else {
-                plankSprite.setPosition(position.x * SCALE_FACTOR, position.y * SCALE_FACTOR)
-                        .setRotation(rotations[0])
-                        .setActive(true)
-                        .setVisible(true);
-            }
-            plankSprite.body = plankBody as any;
-            (plankSprite as any).rotations = rotations;
-            plankBody.userData = plankSprite;
-            this.planks.push(plankSprite);
+    // Rebuild a solved plank of ball number `ball`, with its sprite, in the playback world
+    private addPlank(placement: PlankPlacement, ball: number) {
+        const { scaleFactor } = this.physicsParams;
+        const event = this.voices[ball].noteEvents[placement.noteIndex];
+        // The same body and collider the solver placed, so playback bounces the way the solve did
+        const plankBody = createPlank(this.world, placement, ball);
+
+        const plankSprite = this.add.rectangle(
+            placement.x * scaleFactor,
+            placement.y * scaleFactor,
+            placement.halfLength * scaleFactor * 2,
+            placement.halfThickness * scaleFactor * 2,
+            this.plankColor(ball, event),
+            noteAlpha(event)
+        ).setDepth(1).setRotation(placement.angle);
+
+        const plank: Plank = {
+            body: plankBody,
+            ball,
+            noteIndex: placement.noteIndex,
+            event,
+            played: false,
+            sprite: plankSprite
+        };
+        if (event.notes.length > 1) {
+            plank.chordMarks = this.addChordMarks(placement, event.notes.length);
+            plankSprite.setStrokeStyle(2, 0xffffff, 0.8);
         }
+        this.plankByHandle.set(plankBody.handle, plank);
+        this.planks.push(plank);
         return plankBody;
     }
 
+    // Space one dot per chord note evenly along the plank's long axis
+    private addChordMarks(placement: PlankPlacement, count: number) {
+        const scaleFactor = this.physicsParams.scaleFactor;
+        const cos = Math.cos(placement.angle);
+        const sin = Math.sin(placement.angle);
+        const marks: Phaser.GameObjects.Arc[] = [];
+        for (let i = 0; i < count; i++) {
+            const offset = placement.halfLength * ((2 * (i + 1)) / (count + 1) - 1);
+            marks.push(this.add.circle(
+                (placement.x + cos * offset) * scaleFactor,
+                (placement.y + sin * offset) * scaleFactor,
+                CHORD_MARK_RADIUS * scaleFactor,
+                0xffffff
+            ).setDepth(2));
+        }
+        return marks;
+    }
+
     private pointToSegmentDistance(lineStart: Phaser.Math.Vector2, lineEnd: Phaser.Math.Vector2, point: Phaser.Math.Vector2): number {
         const lineVec = lineEnd.clone().subtract(lineStart);
         const pointVec = point.clone().subtract(lineStart);
@@ -394,38 +1109,170 @@ export default class MusicMelody extends Phaser.Scene {
     }
 
     private checkBallPlankCollisions() {
-        this.world.contactPairsWith(this.world.getCollider(this.ball.handle), (otherCollider: RAPIER.Collider) => {
-            if (otherCollider) {
-                // this.world.removeRigidBody(this.world.getRigidBody(otherCollider.handle));
-                // const collidedPlank: any = this.plankGroup.getChildren().find((p: any) => p.body === this.world.getRigidBody(otherCollider.handle));
-                // if (collidedPlank && collidedPlank.note) {
-                //     Tone.getContext().resume().then(() => {
-                //         const synth = new Tone.Synth().toDestination();
-                //         synth.triggerAttackRelease(collidedPlank.note.name, "8n");
-                //     });
-                //     collidedPlank.sprite?.setFillStyle(0x888888);
-                //     this.world.removeRigidBody(this.world.getRigidBody(otherCollider.handle));
-                // }
+        const ballColliderHandles = new Set(this.balls.map(ball => ball.body.collider(0).handle));
+        this.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+            if (!started) return;
+            if (!ballColliderHandles.has(handle1) && !ballColliderHandles.has(handle2)) return;
+
+            // Collision groups keep each ball to its own planks, so the other collider is one of them
+            const otherCollider = this.world.getCollider(ballColliderHandles.has(handle1) ? handle2 : handle1);
+            const plankBody = otherCollider?.parent();
+            const collidedPlank = plankBody ? this.plankByHandle.get(plankBody.handle) : undefined;
+            // The Transport sounds the notes; a plank only shows it was hit, on its first contact
+            if (!collidedPlank?.event || collidedPlank.played) return;
+
+            this.setPlankPlayed(collidedPlank, true);
+            this.metrics?.recordNoteHit(collidedPlank.noteIndex, collidedPlank.ball);
+            EventBus.emit("note-hit", {
+                noteIndex: collidedPlank.noteIndex,
+                ball: collidedPlank.ball,
+                time: this.trackTime,
+                event: collidedPlank.event
+            });
+            this.cameraImpact();
+        });
+    }
+
+    // Feed the frame to the metrics collector and, a few times a second, send the stats panel a snapshot
+    private updateStats() {
+        if (!this.metrics) return;
+
+        const solving = this.phase === "solving";
+        const world = solving ? this.solver!.getWorld() : this.world;
+        const balls = solving ? [world.getRigidBody(this.solver!.getBallHandle())] : this.balls.map(ball => ball.body);
+        // The fastest ball, when there are several
+        const ballSpeed = Math.max(...balls.map(ball => {
+            const velocity = ball.linvel();
+            return Math.hypot(velocity.x, velocity.y);
+        }));
+        const fps = this.game.loop.actualFps;
+        this.metrics.recordFrame(fps, ballSpeed);
+
+        const now = performance.now();
+        if (now - this.lastStatsTime < STATS_INTERVAL_MS) return;
+        this.lastStatsTime = now;
+
+        EventBus.emit("stats-update", this.metrics.snapshot({
+            phase: solving ? "solving" : "playing",
+            notesPlaced: solving ? this.solvedNoteCount + this.solver!.getCurrentNoteIndex() : this.arena ? this.noteEvents.length : this.planks.length,
+            noteEventCount: this.noteEvents.length,
+            noteIndex: solving ? this.solvedNoteCount + this.solver!.getCurrentNoteIndex() : this.playbackNoteIndex,
+            songTime: solving ? this.solver!.getTrackTime() : this.trackTime,
+            bodyCount: world.bodies.len(),
+            colliderCount: world.colliders.len(),
+            fps,
+            ballSpeed
+        }, now));
+    }
+
+    // Follow the solve live: the ball, the planks near it, what was tried for the latest note and where it leads
+    private drawSolvePreview(solver: MelodySolver) {
+        const scale = this.physicsParams.scaleFactor;
+        const ball = solver.getBallPosition();
+        const time = solver.getTrackTime();
+        const near = (x: number, y: number) => Phaser.Math.Distance.Between(x, y, ball.x, ball.y) <= SOLVE_PREVIEW_RADIUS;
+        this.cameras.main.centerOn(ball.x * scale, ball.y * scale);
+
+        this.previewGraphics.clear();
+        // The balls solved already, whose planks this one has to keep clear of
+        this.solveObstacles.forEach((obstacle, other) => {
+            for (const placement of obstacle.placements) {
+                if (!near(placement.x, placement.y)) continue;
+                this.drawPlankOutline(placement, this.plankColor(other), 0.3);
             }
         });
+        for (const body of solver.getPlankBodies()) {
+            const position = body.translation();
+            if (!near(position.x, position.y)) continue;
+            const halfExtents = body.collider(0).halfExtents();
+            this.drawPlankOutline(
+                { ...position, angle: body.rotation(), halfLength: halfExtents.x, halfThickness: halfExtents.y },
+                this.plankColor(this.solveBall),
+                0.6
+            );
+        }
+        this.drawCandidates(solver.getCandidateLog(), solver.getCurrentNoteIndex() - 1, this.plankColor(this.solveBall));
+
+        const snapshot = solver.getWorld().takeSnapshot();
+        const [path] = this.predictPaths(snapshot, [solver.getBallHandle()], time, time + GHOST_HORIZON_MS);
+        this.drawGhostPath(path, time, this.ghostColor(this.solveBall));
+        this.previewGraphics.fillStyle(0xffffff, 1).fillCircle(
+            ball.x * scale,
+            ball.y * scale,
+            this.physicsParams.ballRadius * scale
+        );
+    }
+
+    private drawPlaybackPreview() {
+        // Predict again whenever the ball reaches another note, from the memento taken there
+        const memento = this.caretaker.findAt(this.trackTime);
+        if (memento && memento.getNoteIndex() !== this.ghostNoteIndex) {
+            const next = this.noteEvents[memento.getNoteIndex() + 1];
+            const horizon = Math.min(next ? next.time : Infinity, memento.getTime() + GHOST_HORIZON_MS);
+            const handles = this.balls.map(ball => ball.body.handle);
+            this.ghostPaths = this.predictPaths(memento.getSnapshot(), handles, memento.getTime(), horizon);
+            this.ghostNoteIndex = memento.getNoteIndex();
+            // Each ball's own count of the notes reached by then
+            this.ghostCandidateIndices = this.voices.map(voice => voice.noteEvents.filter(event => event.time <= memento.getTime()).length);
+        }
+
+        this.previewGraphics.clear();
+        this.voices.forEach((_, ball) => {
+            this.drawCandidates(this.candidateLogs[ball] ?? new Map(), this.ghostCandidateIndices[ball], this.plankColor(ball));
+            this.drawGhostPath(this.ghostPaths[ball] ?? [], this.trackTime, this.ghostColor(ball));
+        });
+    }
+
+    private drawCandidates(log: ReadonlyMap<number, PlankCandidate[]>, noteIndex: number, color: number) {
+        for (const candidate of log.get(noteIndex) ?? []) {
+            this.drawPlankOutline(
+                candidate,
+                candidate.accepted ? color : REJECTED_PLANK_COLOR,
+                candidate.accepted ? 1 : 0.5
+            );
+        }
+    }
+
+    private ghostColor(ball: number) {
+        return this.voices.length > 1 ? ballColor(ball) : GHOST_PATH_COLOR;
+    }
+
+    private drawPlankOutline(plank: { x: number; y: number; angle: number } & PlankSize, color: number, alpha: number) {
+        const { x, y, angle, halfLength, halfThickness } = plank;
+        const scaleFactor = this.physicsParams.scaleFactor;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([u, v]) => new Phaser.Math.Vector2(
+            (x + u * halfLength * cos - v * halfThickness * sin) * scaleFactor,
+            (y + u * halfLength * sin + v * halfThickness * cos) * scaleFactor
+        ));
+        this.previewGraphics.lineStyle(2, color, alpha).strokePoints(corners, true);
     }
 
-    private ensureMinimumVelocity() {
-        const velocity = this.currentVelocity;
-        const currentSpeed = Math.sqrt(velocity.x ** 2 + velocity.y ** 2);
-        if (currentSpeed < MIN_BOUNCE_VELOCITY) {
-            const scaleFactor = MIN_BOUNCE_VELOCITY / currentSpeed;
-            this.ball.setLinvel({ x: velocity.x * scaleFactor, y: velocity.y * scaleFactor }, true);
+    // Faded dots along the predicted path, from `fromTime` on
+    private drawGhostPath(path: GhostPoint[], fromTime: number, color: number) {
+        const scale = this.physicsParams.scaleFactor;
+        for (const point of path) {
+            if (point.time < fromTime) continue;
+            const fade = 1 - (point.time - fromTime) / GHOST_HORIZON_MS;
+            this.previewGraphics.fillStyle(color, 0.5 * Math.max(fade, 0.1)).fillCircle(point.x * scale, point.y * scale, 2);
         }
     }
 
-    private ensureMaximumVelocity() {
-        const velocity = this.currentVelocity;
-        const currentSpeed = Math.sqrt(velocity.x ** 2 + velocity.y ** 2);
-        if (currentSpeed > MAX_BOUNCE_VELOCITY) {
-            const scaleFactor = MAX_BOUNCE_VELOCITY / currentSpeed;
-            this.ball.setLinvel({ x: velocity.x * scaleFactor, y: velocity.y * scaleFactor }, true);
+    // Run a copy of the world from `snapshot` (taken at `fromTime`) up to `untilTime`, recording each ball
+    private predictPaths(snapshot: Uint8Array, ballHandles: number[], fromTime: number, untilTime: number): GhostPoint[][] {
+        const world = RAPIER.World.restoreSnapshot(snapshot);
+        const balls = ballHandles.map(handle => world.getRigidBody(handle));
+        const paths: GhostPoint[][] = balls.map(() => []);
+        for (let time = fromTime; time < untilTime; time += world.timestep * 1000) {
+            world.step();
+            balls.forEach((ball, i) => {
+                const position = ball.translation();
+                paths[i].push({ x: position.x, y: position.y, time: time + world.timestep * 1000 });
+            });
         }
+        world.free();
+        return paths;
     }
 
     
@@ -451,7 +1298,8 @@ export default class MusicMelody extends Phaser.Scene {
             const a = colors[colorIndex + 3];
 
             this.debugGraphics.lineStyle(2, Phaser.Display.Color.GetColor(r * 255, g * 255, b * 255), a);
-            this.debugGraphics.lineBetween(x1 * SCALE_FACTOR, y1 * SCALE_FACTOR, x2 * SCALE_FACTOR, y2 * SCALE_FACTOR);
+            const scale = this.physicsParams.scaleFactor;
+            this.debugGraphics.lineBetween(x1 * scale, y1 * scale, x2 * scale, y2 * scale);
         }
     }
 }
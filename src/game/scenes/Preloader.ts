@@ -1,7 +1,13 @@
 import { Scene } from 'phaser';
+import * as Tone from 'tone';
+import { FALLBACK_MANIFEST, INSTRUMENT_MANIFEST_URL, parseInstrumentManifest, type InstrumentManifest } from '../melody/instruments';
+import { INSTRUMENT_LIBRARY_KEY, type InstrumentLibrary } from '../melody/instrumentRack';
 
 export class Preloader extends Scene
 {
+    private manifest: InstrumentManifest = FALLBACK_MANIFEST;
+    private status: Phaser.GameObjects.Text;
+
     constructor ()
     {
         super('Preloader');
@@ -18,6 +24,8 @@ export class Preloader extends Scene
         //  This is the progress bar itself. It will increase in size from the left based on the % of progress.
         const bar = this.add.rectangle(512-230, 384, 4, 28, 0xffffff);
 
+        this.status = this.add.text(512, 430, 'Loading instruments', { fontSize: '20px', color: '#ffffff' }).setOrigin(0.5, 0);
+
         //  Use the 'progress' event emitted by the LoaderPlugin to update the loading bar
         this.load.on('progress', (progress: number) => {
 
@@ -29,19 +37,98 @@ export class Preloader extends Scene
 
     preload ()
     {
-        //  Load the assets for the game - Replace with your own assets
-        this.load.setPath('assets');
+        //  The manifest lists the instruments; once it is in, their samples join the queue, so the bar covers them too
+        this.load.json('instrument-manifest', INSTRUMENT_MANIFEST_URL);
+
+        this.load.once('filecomplete-json-instrument-manifest', (_key: string, _type: string, data: unknown) => {
+
+            try
+            {
+                this.manifest = parseInstrumentManifest(data);
+            }
+            catch (error)
+            {
+                console.warn(`Playing every track on the plain synth: ${(error as Error).message}`);
+                return;
+            }
+
+            for (const instrument of this.manifest.instruments)
+            {
+                for (const [note, url] of Object.entries(instrument.samples?.urls ?? {}))
+                {
+                    this.load.binary(sampleKey(instrument.id, note), instrument.samples!.baseUrl + url);
+                }
+            }
+
+        });
 
-        this.load.image('logo', 'logo.png');
-        this.load.image('star', 'star.png');
+        //  A missing sample only costs its instrument the samples; it falls back on its synth voice
+        this.load.on('loaderror', (file: Phaser.Loader.File) => {
+
+            console.warn(`Could not load ${file.url}`);
+
+        });
     }
 
-    create ()
+    async create ()
     {
-        //  When all the assets have loaded, it's often worth creating global objects here that the rest of the game can use.
-        //  For example, you can define global animations here, so we can use them in other scenes.
+        this.status.setText('Decoding samples');
+
+        const library: InstrumentLibrary = { manifest: this.manifest, samples: new Map() };
+
+        for (const instrument of this.manifest.instruments)
+        {
+            const samples = await this.decodeSamples(instrument.id, Object.keys(instrument.samples?.urls ?? {}));
+
+            if (samples)
+            {
+                library.samples.set(instrument.id, samples);
+            }
+        }
 
-        //  Move to the MainMenu. You could also swap this for a Scene Transition, such as a camera fade.
-        this.scene.start('MainMenu');
+        //  The registry outlives this scene, and every restart of MusicMelody builds its instruments from it
+        this.registry.set(INSTRUMENT_LIBRARY_KEY, library);
+
+        this.scene.start('MusicMelody');
+    }
+
+    //  Every sample of the instrument, or nothing when one of them did not load or decode
+    private async decodeSamples (id: string, notes: string[])
+    {
+        if (notes.length === 0)
+        {
+            return undefined;
+        }
+
+        const samples: Record<string, AudioBuffer> = {};
+
+        for (const note of notes)
+        {
+            const key = sampleKey(id, note);
+            const data: ArrayBuffer | undefined = this.cache.binary.get(key);
+            this.cache.binary.remove(key);
+
+            if (!data)
+            {
+                return undefined;
+            }
+
+            try
+            {
+                samples[note] = await Tone.getContext().decodeAudioData(data);
+            }
+            catch
+            {
+                console.warn(`Could not decode the ${note} sample of ${id}`);
+                return undefined;
+            }
+        }
+
+        return samples;
     }
 }
+
+function sampleKey (id: string, note: string)
+{
+    return `sample-${id}-${note}`;
+}
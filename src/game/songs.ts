@@ -0,0 +1,29 @@
+// A MIDI file handed to the MusicMelody scene, already read into memory
+export interface SongSource {
+    name: string;
+    data: ArrayBuffer;
+}
+
+// A MIDI file shipped in `public/midi`
+export interface BundledSong {
+    name: string;
+    url: string;
+}
+
+export const BUNDLED_SONGS: BundledSong[] = [
+    { name: "My Heart", url: "/midi/MyHeart.mid" },
+    { name: "Sonata 3rd", url: "/midi/Sonata3rd.mid" },
+    { name: "No. 5 (4)", url: "/midi/No5_4.mid" }
+];
+
+// The song MusicMelody loads on its own when nothing has been picked yet
+export const DEFAULT_SONG = BUNDLED_SONGS[0];
+
+export async function fetchBundledSong(song: BundledSong): Promise<SongSource> {
+    const response = await fetch(song.url);
+    if (!response.ok) {
+        throw new Error(`Could not load ${song.url} (${response.status})`);
+    }
+
+    return { name: song.name, data: await response.arrayBuffer() };
+}
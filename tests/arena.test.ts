@@ -0,0 +1,87 @@
+import RAPIER from "@dimforge/rapier2d-compat";
+import { beforeAll, describe, expect, it } from "vitest";
+import { CIRCLE_SEGMENTS, MelodyArena, type ArenaHit } from "../src/game/melody/arena";
+import type { NoteEvent } from "../src/game/melody/noteSource";
+import { DEFAULT_ARENA, DEFAULT_SETTINGS, type ArenaSettings } from "../src/game/melody/settings";
+import { createMelodyWorld } from "../src/game/melody/solver";
+
+const physics = DEFAULT_SETTINGS.physics;
+const STEP_MS = physics.timestep * 1000;
+
+beforeAll(async () => {
+    await RAPIER.init();
+});
+
+// Note events at the given track times, one note each
+function notesAt(times: number[]): NoteEvent[] {
+    return times.map(time => ({
+        time,
+        notes: [{ midi: 60, name: "C4", time, duration: 0.2, velocity: 0.8, track: 0 }]
+    }));
+}
+
+function createArena(settings: ArenaSettings, noteEvents: NoteEvent[]) {
+    const { world, ball } = createMelodyWorld(physics);
+    const arena = new MelodyArena({
+        world,
+        ball,
+        settings,
+        ballRadius: physics.ballRadius,
+        noteEvents,
+        minSpeed: DEFAULT_SETTINGS.placement.minBounceVelocity,
+        maxSpeed: DEFAULT_SETTINGS.placement.maxBounceVelocity
+    });
+    return { world, ball, arena };
+}
+
+// Step the arena world up to `until`, with the hits and the track time of each
+function run(world: RAPIER.World, arena: MelodyArena, from: number, until: number) {
+    const hits: (ArenaHit & { time: number })[] = [];
+    for (let time = from; time < until; time += STEP_MS) {
+        arena.beforeStep(time + STEP_MS);
+        world.step();
+        const hit = arena.afterStep(time + STEP_MS);
+        if (hit) hits.push({ ...hit, time: time + STEP_MS });
+    }
+    return hits;
+}
+
+describe("MelodyArena", () => {
+    const noteEvents = notesAt([2000, 2400, 2650, 3300, 3500, 4200]);
+
+    it.each<ArenaSettings["shape"]>(["circle", "polygon"])("bounces the ball off a %s wall on every note", shape => {
+        const { world, arena } = createArena({ ...DEFAULT_ARENA, shape }, noteEvents);
+        expect(arena.getWalls(0)).toHaveLength(shape === "circle" ? CIRCLE_SEGMENTS : DEFAULT_ARENA.sides);
+
+        const hits = run(world, arena, 0, 5000);
+        expect(hits.map(hit => hit.noteIndex)).toEqual(noteEvents.map((_, i) => i));
+        hits.forEach((hit, i) => {
+            expect(Math.abs(hit.time - noteEvents[i].time)).toBeLessThanOrEqual(STEP_MS * 2);
+        });
+        world.free();
+    });
+
+    it("keeps hitting its notes while it shrinks and turns", () => {
+        const { world, arena } = createArena({ shape: "polygon", sides: 5, radius: 8, shrink: 0.5, rotationSpeed: 0.3 }, noteEvents);
+
+        const hits = run(world, arena, 0, 5000);
+        expect(hits.length).toBeGreaterThanOrEqual(noteEvents.length - 1);
+        expect(arena.scaleAt(noteEvents[noteEvents.length - 1].time)).toBeCloseTo(0.5);
+        const wall = arena.getWalls(5000)[0];
+        expect(Math.hypot(wall.x - arena.center.x, wall.y - arena.center.y)).toBeLessThan(8 * 0.6);
+        world.free();
+    });
+
+    it("carries on the same way after a snapshot restore", () => {
+        const { world, arena } = createArena(DEFAULT_ARENA, noteEvents);
+        run(world, arena, 0, 2500);
+        const snapshot = world.takeSnapshot();
+        const time = 2500;
+        const expected = run(world, arena, time, 5000);
+
+        const restored = RAPIER.World.restoreSnapshot(snapshot);
+        arena.restore(restored, time);
+        expect(run(restored, arena, time, 5000)).toEqual(expected);
+        restored.free();
+    });
+});
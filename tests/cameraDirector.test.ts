@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { CameraDirector, IMPACT_MS, type CameraFrame, type CameraShot } from "../src/game/melody/cameraDirector";
+import { DEFAULT_CAMERA, type CameraSettings } from "../src/game/melody/settings";
+
+const view = { width: 1000, height: 800 };
+const still: CameraSettings = { ...DEFAULT_CAMERA, lookAhead: 0, autoZoom: false, deadzone: 0, impact: "none" };
+
+// Feed the same frame until the camera has settled
+function settle(director: CameraDirector, frame: CameraFrame, time = 0): CameraShot {
+    let shot = director.update(frame, time);
+    for (let i = 0; i < 200; i++) {
+        shot = director.update(frame, time);
+    }
+    return shot;
+}
+
+function frameAt(x: number, y: number, extra: Partial<CameraFrame> = {}): CameraFrame {
+    return { balls: [{ x, y }], speed: 0, upcoming: [], ...extra };
+}
+
+describe("CameraDirector", () => {
+    it("leans toward the next planks", () => {
+        const director = new CameraDirector({ ...still, lookAhead: 0.5 }, view, { x: 0, y: 0, zoom: 1 });
+        const shot = settle(director, frameAt(0, 0, { upcoming: [{ x: 400, y: 0 }, { x: 400, y: 200 }] }));
+
+        expect(shot.x).toBeCloseTo(200);
+        expect(shot.y).toBeCloseTo(50);
+    });
+
+    it("lets the ball move inside the deadzone without following it", () => {
+        const director = new CameraDirector({ ...still, deadzone: 0.2 }, view, { x: 0, y: 0, zoom: 1 });
+
+        // The deadzone is 200 by 160 pixels, 100 and 80 either side of the middle
+        expect(settle(director, frameAt(90, -70))).toMatchObject({ x: 0, y: 0 });
+        const shot = settle(director, frameAt(300, 0));
+        expect(shot.x).toBeCloseTo(200);
+        expect(shot.y).toBe(0);
+    });
+
+    it("zooms out for a fast ball and for planks spread far apart", () => {
+        const settings = { ...still, autoZoom: true, minZoom: 0.2, maxZoom: 1.2 };
+        const slow = settle(new CameraDirector(settings, view, { x: 0, y: 0, zoom: 1 }), frameAt(0, 0, { speed: 2 }));
+        const fast = settle(new CameraDirector(settings, view, { x: 0, y: 0, zoom: 1 }), frameAt(0, 0, { speed: 25 }));
+        const spread = settle(
+            new CameraDirector(settings, view, { x: 0, y: 0, zoom: 1 }),
+            frameAt(0, 0, { speed: 2, upcoming: [{ x: 3000, y: 0 }] })
+        );
+
+        expect(fast.zoom).toBeLessThan(slow.zoom);
+        expect(spread.zoom).toBeLessThan(slow.zoom);
+        expect(spread.zoom).toBeGreaterThanOrEqual(0.2);
+        expect(settle(new CameraDirector(still, view, { x: 0, y: 0, zoom: 1 }), frameAt(0, 0, { speed: 25 })).zoom).toBeCloseTo(1);
+    });
+
+    it("punches the zoom in on a hit and eases back out", () => {
+        const director = new CameraDirector({ ...still, impact: "punch", impactStrength: 1 }, view, { x: 0, y: 0, zoom: 1 });
+        const frame = frameAt(0, 0);
+        settle(director, frame);
+        director.impact(1000);
+
+        expect(director.update(frame, 1000).zoom).toBeGreaterThan(1.1);
+        expect(director.update(frame, 1000 + IMPACT_MS / 2).zoom).toBeGreaterThan(1);
+        expect(director.update(frame, 1000 + IMPACT_MS).zoom).toBeCloseTo(1);
+    });
+
+    it("shows the whole layout once the song is over, unless told not to", () => {
+        const overview = [{ x: -2000, y: 0 }, { x: 2000, y: 1000 }];
+        const shot = settle(new CameraDirector(still, view, { x: 0, y: 0, zoom: 1 }), frameAt(0, 0, { overview }));
+
+        expect(shot.x).toBeCloseTo(0);
+        expect(shot.y).toBeCloseTo(500);
+        expect(shot.zoom).toBeCloseTo(1000 / 4300);
+        const stays = settle(new CameraDirector({ ...still, overview: false }, view, { x: 0, y: 0, zoom: 1 }), frameAt(0, 0, { overview }));
+        expect(stays.zoom).toBeCloseTo(1);
+    });
+});
@@ -0,0 +1,82 @@
+import { readFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { instrumentForProgram, parseInstrumentManifest } from "../src/game/melody/instruments";
+import { InstrumentRack, type InstrumentLibrary } from "../src/game/melody/instrumentRack";
+import type { MelodyNote } from "../src/game/melody/noteSource";
+
+// Node has no Web Audio, so Tone's nodes only record what the rack builds and plays
+const voices = vi.hoisted(() => [] as { kind: "Sampler" | "PolySynth"; options: unknown; played: number[] }[]);
+
+vi.mock("tone", () => {
+    class AudioNode {
+        connect() { return this; }
+        toDestination() { return this; }
+        dispose() {}
+    }
+    class Voice extends AudioNode {
+        private record: (typeof voices)[number];
+        constructor(kind: "Sampler" | "PolySynth", options: unknown) {
+            super();
+            this.record = { kind, options, played: [] };
+            voices.push(this.record);
+        }
+        triggerAttackRelease(frequency: number) {
+            this.record.played.push(frequency);
+        }
+    }
+    return {
+        Volume: class extends AudioNode { volume = { value: 0 }; },
+        Reverb: class extends AudioNode {},
+        Gain: class extends AudioNode { gain = { value: 0 }; },
+        Synth: class {},
+        Sampler: class extends Voice { constructor(options: unknown) { super("Sampler", options); } },
+        PolySynth: class extends Voice { constructor(_voice: unknown, options: unknown) { super("PolySynth", options); } },
+        Frequency: (midi: number) => ({ toFrequency: () => 440 * 2 ** ((midi - 69) / 12) }),
+        gainToDb: (gain: number) => 20 * Math.log10(gain)
+    };
+});
+
+const manifest = parseInstrumentManifest(JSON.parse(readFileSync("public/instruments/manifest.json", "utf8")));
+const pianoSamples = { C4: {} as AudioBuffer, C5: {} as AudioBuffer };
+
+function note(track: number, midi: number, name: string): MelodyNote {
+    return { track, midi, name, time: 0, duration: 0.5, velocity: 0.8 };
+}
+
+describe("InstrumentRack", () => {
+    beforeEach(() => {
+        voices.length = 0;
+    });
+
+    it("plays a program whose instrument has samples through a Sampler of them", () => {
+        const library: InstrumentLibrary = { manifest, samples: new Map([["piano", pianoSamples]]) };
+        const rack = new InstrumentRack(library);
+        const instrument = instrumentForProgram(manifest, 1, false);
+        rack.setTrackInstrument(0, instrument);
+        rack.play(note(0, 69, "A4"), 0);
+
+        expect(instrument).toBe("piano");
+        expect(rack.isSampled(instrument)).toBe(true);
+        const sampler = voices.find(voice => voice.kind === "Sampler")!;
+        expect(sampler.options).toEqual({ urls: pianoSamples });
+        expect(sampler.played).toEqual([440]);
+    });
+
+    it("plays instruments without samples on their synth voice", () => {
+        const rack = new InstrumentRack({ manifest, samples: new Map([["piano", pianoSamples]]) });
+        rack.setTrackInstrument(1, instrumentForProgram(manifest, 33, false));
+        rack.play(note(1, 45, "A2"), 0);
+
+        expect(rack.isSampled("bass")).toBe(false);
+        expect(voices.map(voice => voice.kind)).toEqual(["Sampler", "PolySynth"]);
+        expect(voices[1].played).toEqual([110]);
+    });
+
+    it("plays the piano on its synth voice when its samples did not load", () => {
+        const rack = new InstrumentRack({ manifest, samples: new Map() });
+        rack.play(note(0, 60, "C4"), 0);
+
+        expect(rack.isSampled("piano")).toBe(false);
+        expect(voices.map(voice => voice.kind)).toEqual(["PolySynth"]);
+    });
+});
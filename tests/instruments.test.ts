@@ -0,0 +1,64 @@
+import { existsSync, readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+    FALLBACK_MANIFEST,
+    InstrumentManifestError,
+    instrumentForProgram,
+    parseInstrumentManifest
+} from "../src/game/melody/instruments";
+
+const shipped = JSON.parse(readFileSync("public/instruments/manifest.json", "utf8"));
+
+describe("instrument manifest", () => {
+    it("maps General MIDI programs to the shipped instruments", () => {
+        const manifest = parseInstrumentManifest(shipped);
+
+        expect(instrumentForProgram(manifest, 0, false)).toBe("piano");
+        expect(instrumentForProgram(manifest, 33, false)).toBe("bass");
+        expect(instrumentForProgram(manifest, 48, false)).toBe("strings");
+        expect(instrumentForProgram(manifest, 73, false)).toBe("winds");
+        // Percussion tracks go to the drums whatever their program
+        expect(instrumentForProgram(manifest, 0, true)).toBe("percussion");
+        expect(instrumentForProgram(FALLBACK_MANIFEST, 40, true)).toBe("synth");
+    });
+
+    it("ships every sample the manifest lists", () => {
+        const manifest = parseInstrumentManifest(shipped);
+        const piano = manifest.instruments.find(instrument => instrument.id === "piano")!;
+
+        expect(Object.keys(piano.samples?.urls ?? {})).toEqual(["C2", "C3", "C4", "C5", "C6"]);
+        for (const instrument of manifest.instruments) {
+            for (const url of Object.values(instrument.samples?.urls ?? {})) {
+                const path = `public/${instrument.samples!.baseUrl}${url}`;
+                expect(existsSync(path), path).toBe(true);
+                expect(readFileSync(path).subarray(8, 12).toString()).toBe("WAVE");
+            }
+        }
+    });
+
+    it("falls back on the default instrument for programs nothing covers", () => {
+        const manifest = parseInstrumentManifest({
+            ...shipped,
+            defaultInstrument: "organ",
+            instruments: shipped.instruments.filter((instrument: { id: string }) => instrument.id !== "brass")
+        });
+
+        expect(instrumentForProgram(manifest, 60, false)).toBe("organ");
+    });
+
+    it("rejects broken manifests", () => {
+        const piano = { id: "piano", name: "Piano", programs: [0, 7], synth: "keys" };
+        const parse = (patch: object) => () => parseInstrumentManifest({ ...shipped, ...patch });
+
+        expect(parse({ format: "something-else" })).toThrow(InstrumentManifestError);
+        expect(parse({ defaultInstrument: "harp" })).toThrow(/defaultInstrument/);
+        expect(parse({ instruments: [piano, piano] })).toThrow(/own id/);
+        expect(parse({ instruments: [{ ...piano, programs: [7, 0] }] })).toThrow(/programs/);
+        expect(parse({ instruments: [{ ...piano, synth: "theremin" }] })).toThrow(/synth/);
+        expect(parse({ instruments: [{ ...piano, samples: { baseUrl: "x/", urls: { middle: "C4.mp3" } } }] })).toThrow(/note names/);
+        expect(parseInstrumentManifest({
+            ...shipped,
+            instruments: [{ ...piano, samples: { baseUrl: "instruments/piano/", urls: { C4: "C4.mp3" } } }]
+        }).instruments[0].samples).toEqual({ baseUrl: "instruments/piano/", urls: { C4: "C4.mp3" } });
+    });
+});
@@ -0,0 +1,161 @@
+import RAPIER from "@dimforge/rapier2d-compat";
+import { beforeAll, describe, expect, it } from "vitest";
+import { Caretaker, Originator, type MelodyState } from "../src/game/memento/MementoConcept";
+import { DEFAULT_PHYSICS } from "../src/game/melody/physics";
+import { createMelodyWorld } from "../src/game/melody/solver";
+
+beforeAll(async () => {
+    await RAPIER.init();
+});
+
+function createCaretaker(memoryBudget?: number) {
+    const { world, ball } = createMelodyWorld(DEFAULT_PHYSICS);
+    return { caretaker: new Caretaker(new Originator(world), memoryBudget), ballHandle: ball.handle };
+}
+
+function addPlank(world: RAPIER.World, x: number, y: number): number {
+    const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed().setTranslation(x, y));
+    world.createCollider(RAPIER.ColliderDesc.cuboid(DEFAULT_PHYSICS.plankHalfLength, DEFAULT_PHYSICS.plankHalfThickness), body);
+    return body.handle;
+}
+
+function stepFor(world: RAPIER.World, steps: number) {
+    for (let i = 0; i < steps; i++) {
+        world.step();
+    }
+}
+
+const state = (time: number, noteIndex: number, planks: MelodyState["planks"] = []): MelodyState => ({ time, noteIndex, planks });
+
+describe("Caretaker", () => {
+    it("undoes back to the previous memento and rewinds the world to it", () => {
+        const { caretaker, ballHandle } = createCaretaker();
+        caretaker.save(state(0, 0));
+        const saved = caretaker.getWorld().getRigidBody(ballHandle).translation();
+
+        stepFor(caretaker.getWorld(), 30);
+        caretaker.save(state(500, 1));
+        stepFor(caretaker.getWorld(), 30);
+
+        const memento = caretaker.undo();
+        expect(memento?.getTime()).toBe(0);
+        expect(memento?.getNoteIndex()).toBe(0);
+        expect(caretaker.size()).toBe(1);
+
+        // The restored world is a new one; the ball is found again by its handle
+        const position = caretaker.getWorld().getRigidBody(ballHandle).translation();
+        expect(position.x).toBe(saved.x);
+        expect(position.y).toBe(saved.y);
+    });
+
+    it("undoes several levels at once", () => {
+        const { caretaker } = createCaretaker();
+        for (let i = 0; i < 5; i++) {
+            caretaker.save(state(i * 100, i));
+            stepFor(caretaker.getWorld(), 6);
+        }
+
+        expect(caretaker.undo(3)?.getNoteIndex()).toBe(1);
+        expect(caretaker.size()).toBe(2);
+    });
+
+    it("leaves the history and the world alone when it cannot go back that far", () => {
+        const { caretaker } = createCaretaker();
+        caretaker.save(state(0, 0));
+        caretaker.save(state(100, 1));
+        const world = caretaker.getWorld();
+
+        expect(caretaker.undo(2)).toBeUndefined();
+        expect(caretaker.size()).toBe(2);
+        expect(caretaker.getWorld()).toBe(world);
+    });
+
+    it("keeps the saved state apart from later changes to the caller's plank list", () => {
+        const { caretaker } = createCaretaker();
+        const planks = [{ handle: 1, noteIndex: 0 }];
+        const memento = caretaker.save(state(0, 1, planks));
+
+        planks.push({ handle: 2, noteIndex: 1 });
+        planks[0].noteIndex = 5;
+
+        expect(memento.getState().planks).toEqual([{ handle: 1, noteIndex: 0 }]);
+    });
+
+    it("restores to the latest memento at or before a time, keeping the later ones", () => {
+        const { caretaker } = createCaretaker();
+        caretaker.save(state(0, 0));
+        caretaker.save(state(1000, 1));
+        caretaker.save(state(2000, 2));
+
+        expect(caretaker.restoreTo(1500)?.getNoteIndex()).toBe(1);
+        expect(caretaker.size()).toBe(3);
+        expect(caretaker.restoreTo(-1)).toBeUndefined();
+    });
+});
+
+describe("Plank bookkeeping", () => {
+    it("drops the planks added after a memento when undoing to it", () => {
+        const { caretaker, ballHandle } = createCaretaker();
+        const first = addPlank(caretaker.getWorld(), 0, 5);
+        caretaker.save(state(0, 1, [{ handle: first, noteIndex: 0 }]));
+
+        const second = addPlank(caretaker.getWorld(), 3, 8);
+        caretaker.save(state(100, 2, [{ handle: first, noteIndex: 0 }, { handle: second, noteIndex: 1 }]));
+        addPlank(caretaker.getWorld(), 6, 11);
+        expect(caretaker.getWorld().bodies.len()).toBe(4);
+
+        const memento = caretaker.undo()!;
+        const world = caretaker.getWorld();
+        expect(memento.getState().planks).toEqual([{ handle: first, noteIndex: 0 }]);
+        expect(world.bodies.len()).toBe(2);
+        expect(world.bodies.contains(ballHandle)).toBe(true);
+        expect(world.bodies.contains(first)).toBe(true);
+        expect(world.bodies.contains(second)).toBe(false);
+        expect(world.getRigidBody(first).translation()).toEqual({ x: 0, y: 5 });
+    });
+
+    it("finds the saved planks by handle after restoring", () => {
+        const { caretaker } = createCaretaker();
+        const handle = addPlank(caretaker.getWorld(), 2, 4);
+        caretaker.save(state(0, 1, [{ handle, noteIndex: 0 }]));
+        caretaker.getWorld().removeRigidBody(caretaker.getWorld().getRigidBody(handle));
+
+        const memento = caretaker.restoreTo(0)!;
+        for (const plank of memento.getState().planks) {
+            expect(caretaker.getWorld().getRigidBody(plank.handle).translation()).toEqual({ x: 2, y: 4 });
+        }
+    });
+});
+
+describe("Memory budget", () => {
+    it("thins out older mementos once the snapshots outgrow the budget", () => {
+        const { caretaker } = createCaretaker();
+        const snapshotSize = caretaker.save(state(0, 0)).getByteSize();
+        const budgeted = createCaretaker(snapshotSize * 10).caretaker;
+
+        for (let i = 0; i < 100; i++) {
+            budgeted.save(state(i * 100, i));
+            expect(budgeted.getByteSize()).toBeLessThanOrEqual(snapshotSize * 10);
+        }
+
+        expect(budgeted.size()).toBeLessThanOrEqual(10);
+        // The first memento survives for a full restart, and the latest stays one undo away
+        expect(budgeted.findAt(0)?.getNoteIndex()).toBe(0);
+        expect(budgeted.peek()?.getNoteIndex()).toBe(99);
+    });
+
+    it("counts the bytes of every memento it holds", () => {
+        const { caretaker } = createCaretaker();
+        let total = 0;
+        for (let i = 0; i < 5; i++) {
+            total += caretaker.save(state(i, i)).getByteSize();
+        }
+        expect(caretaker.getByteSize()).toBe(total);
+
+        caretaker.undo(2);
+        expect(caretaker.getByteSize()).toBeLessThan(total);
+        caretaker.clearHistory();
+        expect(caretaker.getByteSize()).toBe(0);
+        expect(caretaker.size()).toBe(0);
+    });
+});
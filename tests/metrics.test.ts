@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { MetricsCollector, type WorldStats } from "../src/game/melody/metrics";
+
+const run = { song: "Test", seed: 7, placementMode: "timing" as const, noteEventCount: 10 };
+
+const world: WorldStats = {
+    phase: "solving",
+    notesPlaced: 3,
+    noteEventCount: 10,
+    noteIndex: 3,
+    songTime: 2500,
+    bodyCount: 4,
+    colliderCount: 4,
+    fps: 60,
+    ballSpeed: 12
+};
+
+describe("MetricsCollector", () => {
+    it("rates undos over the last second only", () => {
+        const metrics = new MetricsCollector(run, 0);
+        for (const time of [100, 200, 300, 1250]) {
+            metrics.recordUndo(time);
+        }
+
+        expect(metrics.getUndoRate(1250)).toBe(2);
+        expect(metrics.snapshot(world, 1250)).toMatchObject({ ...world, undoCount: 4, undoRate: 2 });
+        expect(metrics.getUndoRate(5000)).toBe(0);
+    });
+
+    it("averages step time per step across batches", () => {
+        const metrics = new MetricsCollector(run, 0);
+        metrics.recordSteps(10, 5, 100);
+        metrics.recordSteps(30, 3, 200);
+        metrics.recordSteps(0, 0, 300);
+
+        expect(metrics.getStepTime(300)).toBeCloseTo(0.2);
+        expect(metrics.getStepTime(2000)).toBe(0);
+    });
+
+    it("summarizes the whole run", () => {
+        const metrics = new MetricsCollector(run, 1000);
+        metrics.recordUndo(1100);
+        metrics.recordUndo(1200);
+        metrics.recordSteps(10, 10, 1500);
+        metrics.recordSteps(10, 2, 2500);
+        metrics.finishSolve(9, false, 3000);
+        metrics.recordFrame(60, 5);
+        metrics.recordFrame(30, 20);
+        metrics.recordNoteHit(0);
+        metrics.recordNoteHit(1);
+        metrics.recordNoteHit(0);
+
+        expect(metrics.summary(10000)).toMatchObject({
+            ...run,
+            notesPlaced: 9,
+            solved: false,
+            undoCount: 2,
+            solveSeconds: 2,
+            meanUndoRate: 1,
+            peakUndoRate: 2,
+            notesHit: 2,
+            meanStepTime: 0.6,
+            maxStepTime: 1,
+            meanFps: 45,
+            minFps: 30,
+            maxBallSpeed: 20
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import { readFileSync } from "node:fs";
+import { Midi } from "@tonejs/midi";
+import { describe, expect, it } from "vitest";
+import {
+    DEFAULT_NOTE_SOURCE,
+    LEAD_IN_MS,
+    extractBallNoteEvents,
+    extractNoteEvents,
+    extractNotes,
+    groupNoteEvents
+} from "../src/game/melody/noteSource";
+
+// A MIDI file with one track per entry, notes as [midi, start seconds, duration seconds]
+function createMidi(...tracks: { channel?: number; notes: [number, number, number][] }[]): Midi {
+    const midi = new Midi();
+    for (const { channel = 0, notes } of tracks) {
+        const track = midi.addTrack();
+        track.channel = channel;
+        for (const [note, time, duration] of notes) {
+            track.addNote({ midi: note, time, duration });
+        }
+    }
+    // Round trip through the encoded bytes, like a file loaded from disk
+    return new Midi(midi.toArray());
+}
+
+const times = (notes: { time: number }[]) => notes.map(note => Math.round(note.time));
+
+describe("extractNotes", () => {
+    it("shifts an early first note to ring two seconds after the drop, keeping the spacing", () => {
+        const notes = extractNotes(createMidi({ notes: [[60, 0, 0.5], [62, 0.5, 0.5], [64, 1.25, 0.5]] }));
+        expect(LEAD_IN_MS).toBe(2000);
+        expect(times(notes)).toEqual([2000, 2500, 3250]);
+    });
+
+    it("leaves a song alone when its first note already comes after the lead-in", () => {
+        const notes = extractNotes(createMidi({ notes: [[60, 3, 0.5], [62, 4, 0.5]] }));
+        expect(times(notes)).toEqual([3000, 4000]);
+    });
+
+    it("takes the lead-in from the caller", () => {
+        const notes = extractNotes(createMidi({ notes: [[60, 0.25, 0.5], [62, 1, 0.5]] }), DEFAULT_NOTE_SOURCE, 500);
+        expect(times(notes)).toEqual([500, 1250]);
+    });
+
+    it("merges the tracks in time order, highest pitch first on a tie", () => {
+        const notes = extractNotes(createMidi(
+            { notes: [[60, 0, 1], [67, 2, 1]] },
+            { notes: [[72, 0, 1], [64, 1, 1]] }
+        ));
+        expect(notes.map(note => note.midi)).toEqual([72, 60, 64, 67]);
+        expect(notes.map(note => note.track)).toEqual([1, 0, 1, 0]);
+        expect(notes[0].name).toBe("C5");
+        expect(notes[0].duration).toBeCloseTo(1);
+    });
+
+    it("skips the percussion channel unless asked to keep it", () => {
+        const midi = createMidi({ notes: [[60, 0, 1]] }, { channel: 9, notes: [[36, 0.5, 0.1]] });
+        expect(extractNotes(midi).map(note => note.midi)).toEqual([60]);
+        expect(extractNotes(midi, { ...DEFAULT_NOTE_SOURCE, excludePercussion: false }).map(note => note.midi)).toEqual([60, 36]);
+    });
+
+    it("filters by track and pitch range", () => {
+        const midi = createMidi({ notes: [[40, 0, 1], [60, 1, 1], [90, 2, 1]] }, { notes: [[62, 0, 1]] });
+        const notes = extractNotes(midi, { ...DEFAULT_NOTE_SOURCE, tracks: [0], minPitch: 50, maxPitch: 80 });
+        expect(notes.map(note => note.midi)).toEqual([60]);
+    });
+
+    it("keeps only the top voice when asked", () => {
+        const midi = createMidi({ notes: [[72, 0, 2], [60, 0, 1], [64, 1, 0.5], [76, 2.5, 0.5]] });
+        const notes = extractNotes(midi, { ...DEFAULT_NOTE_SOURCE, highestNoteOnly: true });
+        expect(notes.map(note => note.midi)).toEqual([72, 76]);
+    });
+});
+
+describe("groupNoteEvents", () => {
+    it("merges notes within the chord window of the first one into one event", () => {
+        const notes = extractNotes(createMidi({ notes: [[60, 0, 1], [64, 0.02, 1], [67, 0.04, 1], [72, 1, 1]] }));
+        const events = groupNoteEvents(notes, 30);
+        expect(times(events)).toEqual([2000, 2040, 3000]);
+        expect(events[0].notes.map(note => note.midi)).toEqual([64, 60]);
+    });
+});
+
+describe("extractBallNoteEvents", () => {
+    const ballPerTrack = { ...DEFAULT_NOTE_SOURCE, ballPerTrack: true };
+
+    it("gives every selected track with notes its own ball, sharing one lead-in", () => {
+        const midi = createMidi(
+            { notes: [[60, 1, 1], [62, 2, 1]] },
+            { notes: [] },
+            { notes: [[48, 0.5, 1], [50, 1.5, 1]] },
+            { notes: [[72, 0, 1]] }
+        );
+        const balls = extractBallNoteEvents(midi, { ...ballPerTrack, tracks: [0, 1, 2] });
+        expect(balls.map(times)).toEqual([[2500, 3500], [2000, 3000]]);
+        expect(balls.map(events => events[0].notes[0].track)).toEqual([0, 2]);
+    });
+
+    it("keeps the top voice of each track on its own", () => {
+        const midi = createMidi({ notes: [[72, 0, 2]] }, { notes: [[48, 0, 1], [43, 0, 1], [50, 1, 1]] });
+        const balls = extractBallNoteEvents(midi, { ...ballPerTrack, highestNoteOnly: true });
+        expect(balls.map(events => events.flatMap(event => event.notes.map(note => note.midi)))).toEqual([[72], [48, 50]]);
+    });
+
+    it("returns one ball with every note when not split by track", () => {
+        const midi = createMidi({ notes: [[60, 0, 1]] }, { notes: [[48, 0.5, 1]] });
+        expect(extractBallNoteEvents(midi)).toEqual([extractNoteEvents(midi)]);
+    });
+});
+
+describe("bundled songs", () => {
+    it.each(["MyHeart", "No5_4", "Sonata3rd"])("%s parses into time-ordered events after the lead-in", name => {
+        const events = extractNoteEvents(new Midi(readFileSync(`public/midi/${name}.mid`)));
+        expect(events.length).toBeGreaterThan(100);
+        expect(events[0].time).toBeGreaterThanOrEqual(LEAD_IN_MS);
+        for (let i = 1; i < events.length; i++) {
+            expect(events[i].time).toBeGreaterThan(events[i - 1].time + DEFAULT_NOTE_SOURCE.chordWindowMs);
+        }
+    });
+});
@@ -0,0 +1,454 @@
+import { readFileSync } from "node:fs";
+import RAPIER from "@dimforge/rapier2d-compat";
+import { Midi } from "@tonejs/midi";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+    LAYOUT_FORMAT_VERSION,
+    LayoutFormatError,
+    createLayout,
+    layoutBalls,
+    layoutNoteEvents,
+    parseLayout,
+    serializeLayout
+} from "../src/game/melody/layoutFormat";
+import { DEFAULT_NOTE_SOURCE, extractBallNoteEvents, extractNoteEvents, type NoteEvent } from "../src/game/melody/noteSource";
+import { notePlankSize } from "../src/game/melody/plankSize";
+import { DEFAULT_SETTINGS, type PlacementMode } from "../src/game/melody/settings";
+import {
+    MelodySolver,
+    ballStartFor,
+    createBall,
+    createMelodyWorld,
+    createPlank,
+    solveBalls,
+    type PlankPlacement,
+    type SolverOptions
+} from "../src/game/melody/solver";
+
+const SEED = 41;
+const OPENING_EVENTS = 20; // Enough to reach every solver path quickly; the whole songs have their own tests
+const MAX_SEGMENTS = 20000; // The trajectory index's default
+const MAX_CELLS_PER_SEGMENT = 9; // A segment no longer than a cell, widened by the ball, spans at most 3 × 3 cells
+
+beforeAll(async () => {
+    await RAPIER.init();
+});
+
+function wholeSong(name: string) {
+    return extractNoteEvents(new Midi(readFileSync(`public/midi/${name}.mid`)));
+}
+
+function openingOf(name: string) {
+    return wholeSong(name).slice(0, OPENING_EVENTS);
+}
+
+function solve(options: SolverOptions) {
+    const solver = new MelodySolver(options);
+    const result = solver.run();
+    solver.dispose();
+    return result;
+}
+
+// When the ball first touches each plank, by note index, the way the scene hears it: by a
+// collision event. Each plank goes in at the first step on or after its note, as in the solve,
+// or with `upFront` they are all there from the start, as in the scene.
+function contactTimes(noteEvents: NoteEvent[], placements: PlankPlacement[], upFront = false): Map<number, number> {
+    const { world } = createMelodyWorld(DEFAULT_SETTINGS.physics);
+    const eventQueue = new RAPIER.EventQueue(true);
+    const noteIndexByCollider = new Map<number, number>();
+    const contacts = new Map<number, number>();
+    const end = noteEvents[noteEvents.length - 1].time + 1000;
+    const addPlank = (placement: PlankPlacement) => {
+        noteIndexByCollider.set(createPlank(world, placement, 0).collider(0).handle, placement.noteIndex);
+    };
+    let next = upFront ? placements.length : 0;
+    if (upFront) placements.forEach(addPlank);
+    for (let time = 0; time < end;) {
+        world.step(eventQueue);
+        time += world.timestep * 1000;
+        eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+            const noteIndex = noteIndexByCollider.get(handle1) ?? noteIndexByCollider.get(handle2);
+            if (started && noteIndex !== undefined && !contacts.has(noteIndex)) {
+                contacts.set(noteIndex, time);
+            }
+        });
+        while (next < placements.length && time >= noteEvents[placements[next].noteIndex].time) {
+            addPlank(placements[next++]);
+        }
+    }
+    eventQueue.free();
+    world.free();
+    return contacts;
+}
+
+// Every plank is first touched on its note or at most two steps after
+function expectContactsOnTime(noteEvents: NoteEvent[], placements: PlankPlacement[], contacts: Map<number, number>) {
+    const stepMs = DEFAULT_SETTINGS.physics.timestep * 1000;
+    for (const plank of placements) {
+        const lateBy = contacts.get(plank.noteIndex)! - noteEvents[plank.noteIndex].time;
+        expect(lateBy).toBeGreaterThanOrEqual(0);
+        expect(lateBy).toBeLessThanOrEqual(2 * stepMs + 1e-3);
+    }
+}
+
+// The ball's speed one step after each time it starts touching a plank, once its bounce is in,
+// replayed with every plank in place
+function bounceSpeeds(noteEvents: NoteEvent[], placements: PlankPlacement[]): number[] {
+    const { world, ball } = createMelodyWorld(DEFAULT_SETTINGS.physics);
+    const eventQueue = new RAPIER.EventQueue(true);
+    placements.forEach(placement => createPlank(world, placement, 0));
+    const speeds: number[] = [];
+    const end = noteEvents[noteEvents.length - 1].time + 1000;
+    let bounced = false;
+    for (let time = 0; time < end; time += world.timestep * 1000) {
+        world.step(eventQueue);
+        const velocity = ball.linvel();
+        if (bounced) speeds.push(Math.hypot(velocity.x, velocity.y));
+        bounced = false;
+        eventQueue.drainCollisionEvents((_handle1, _handle2, started) => {
+            bounced ||= started;
+        });
+    }
+    eventQueue.free();
+    world.free();
+    return speeds;
+}
+
+// Within the placement's speed limits, give or take the step of gravity between bounce and check
+function expectSpeedsInRange(speeds: number[]) {
+    const { physics, placement } = DEFAULT_SETTINGS;
+    const slack = Math.abs(physics.gravity) * physics.timestep + 1e-3;
+    for (const speed of speeds) {
+        expect(speed).toBeGreaterThanOrEqual(placement.minBounceVelocity - slack);
+        expect(speed).toBeLessThanOrEqual(placement.maxBounceVelocity + slack);
+    }
+}
+
+const modes: PlacementMode[] = ["timing", "random"];
+
+describe.each(["MyHeart", "No5_4", "Sonata3rd"])("solving %s", name => {
+    const noteEvents = openingOf(name);
+
+    it.each(modes)("places one plank per note in %s mode, the same way for the same seed", mode => {
+        const options = { noteEvents, physics: DEFAULT_SETTINGS.physics, placement: { ...DEFAULT_SETTINGS.placement, mode }, seed: SEED };
+        const result = solve(options);
+
+        expect(result.solved).toBe(true);
+        expect(result.placements.map(plank => plank.noteIndex)).toEqual(noteEvents.map((_, i) => i));
+        for (const plank of result.placements) {
+            expect(Number.isFinite(plank.x) && Number.isFinite(plank.y) && Number.isFinite(plank.angle)).toBe(true);
+            expect(plank.restitution).toBeGreaterThanOrEqual(0);
+        }
+        expect(solve(options)).toEqual(result);
+    });
+
+    it("only keeps timed planks the ball touches on their notes", () => {
+        const result = solve({ noteEvents, physics: DEFAULT_SETTINGS.physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+        expectContactsOnTime(noteEvents, result.placements, contactTimes(noteEvents, result.placements));
+    });
+
+    it("never lets a timed plank add energy or send the ball outside the speed limits", () => {
+        const result = solve({ noteEvents, physics: DEFAULT_SETTINGS.physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+
+        for (const plank of result.placements) {
+            expect(plank.restitution).toBeLessThanOrEqual(1);
+        }
+        const speeds = bounceSpeeds(noteEvents, result.placements);
+        expect(speeds.length).toBeGreaterThanOrEqual(OPENING_EVENTS);
+        expectSpeedsInRange(speeds);
+    });
+
+    it("replays its timed layout in a fresh world with every plank in place, each touched on its note", () => {
+        const result = solve({ noteEvents, physics: DEFAULT_SETTINGS.physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+        expectContactsOnTime(noteEvents, result.placements, contactTimes(noteEvents, result.placements, true));
+    });
+});
+
+describe("MelodySolver", () => {
+    it("gives up when no plank fits", () => {
+        // No bounce can be both faster than 50 m/s and slower than 10 m/s
+        const placement = { ...DEFAULT_SETTINGS.placement, minBounceVelocity: 50, maxBounceVelocity: 10 };
+        const solver = new MelodySolver({ noteEvents: openingOf("MyHeart"), physics: DEFAULT_SETTINGS.physics, placement, seed: SEED });
+        const result = solver.run();
+
+        expect(solver.isFinished()).toBe(true);
+        expect(result.solved).toBe(false);
+        expect(result.undoCount).toBe(1);
+        expect(result.placements).toEqual([]);
+        solver.dispose();
+    });
+
+    it("tells its listener about every plank and undo", () => {
+        const placed = new Map<number, PlankPlacement>();
+        let undos = 0;
+        const result = solve({
+            noteEvents: openingOf("MyHeart"),
+            physics: DEFAULT_SETTINGS.physics,
+            placement: DEFAULT_SETTINGS.placement,
+            seed: SEED,
+            listener: {
+                plankPlaced: placement => placed.set(placement.noteIndex, placement),
+                undone: (noteIndex, undoCount) => {
+                    expect(undoCount).toBe(++undos);
+                    expect(noteIndex).toBeLessThan(OPENING_EVENTS);
+                }
+            }
+        });
+
+        expect(undos).toBe(result.undoCount);
+        // The latest plank placed for each note is the one in the layout
+        expect([...placed.values()].sort((a, b) => a.noteIndex - b.noteIndex)).toEqual(result.placements);
+    });
+
+    it("keeps the furthest note reached while backtracking", () => {
+        const solver = new MelodySolver({ noteEvents: openingOf("No5_4"), physics: DEFAULT_SETTINGS.physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+        while (!solver.isFinished()) {
+            solver.step();
+            expect(solver.getFurthestNoteIndex()).toBeGreaterThanOrEqual(solver.getCurrentNoteIndex());
+        }
+        expect(solver.getFurthestNoteIndex()).toBe(OPENING_EVENTS);
+        solver.dispose();
+    });
+
+    it("sizes each plank by its note, or every plank alike", () => {
+        const noteEvents = openingOf("No5_4");
+        const physics = DEFAULT_SETTINGS.physics;
+        const sized = solve({ noteEvents, physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+        for (const plank of sized.placements) {
+            const size = notePlankSize(noteEvents[plank.noteIndex], physics);
+            expect(plank.halfLength).toBe(size.halfLength);
+            expect(plank.halfThickness).toBe(size.halfThickness);
+        }
+        expect(new Set(sized.placements.map(plank => plank.halfLength.toFixed(3))).size).toBeGreaterThan(1);
+
+        const placement = { ...DEFAULT_SETTINGS.placement, noteSizedPlanks: false };
+        for (const plank of solve({ noteEvents, physics, placement, seed: SEED }).placements) {
+            expect(plank.halfLength).toBe(physics.plankHalfLength);
+        }
+    });
+
+    it("reports the planks it asked for, not Rapier's single precision copies", () => {
+        const physics = DEFAULT_SETTINGS.physics;
+        const placement = { ...DEFAULT_SETTINGS.placement, mode: "random" as const };
+        const result = solve({ noteEvents: openingOf("MyHeart"), physics, placement, seed: SEED });
+
+        for (const plank of result.placements) {
+            expect(placement.plankRotations).toContain(plank.angle);
+            expect(plank.restitution).toBe(physics.plankRestitution);
+        }
+    });
+
+    it("produces a layout that survives export and import", () => {
+        const noteEvents = openingOf("Sonata3rd");
+        const physics = DEFAULT_SETTINGS.physics;
+        const result = solve({ noteEvents, physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+        const balls = [{ start: physics.ballStart, noteEvents, placements: result.placements }];
+        const layout = createLayout({ name: "Sonata3rd", hash: "0", noteEventCount: noteEvents.length }, physics, balls, result.solved, SEED);
+
+        const imported = parseLayout(serializeLayout(layout));
+        expect(imported.planks).toHaveLength(OPENING_EVENTS);
+        expect(imported.seed).toBe(SEED);
+        expect(imported.balls).toBeUndefined();
+        expect(layoutNoteEvents(imported).map(event => event.time)).toEqual(noteEvents.map(event => event.time));
+
+        // The imported planks are the solved ones to the last bit, so the ball still touches each on its note
+        const [ball] = layoutBalls(imported);
+        expect(ball.placements).toEqual(result.placements);
+        expectContactsOnTime(ball.noteEvents, ball.placements, contactTimes(ball.noteEvents, ball.placements, true));
+    });
+});
+
+describe("solving the bundled songs whole", () => {
+    const physics = DEFAULT_SETTINGS.physics;
+
+    // Solves step by step, checking the ball's path stays bounded however far it goes
+    function solveBounded(options: SolverOptions, maxSteps = Infinity) {
+        const solver = new MelodySolver(options);
+        const trajectory = solver.getTrajectory();
+        let mostSegments = 0;
+        let mostCellsPerSegment = 0;
+        for (let steps = 0; !solver.isFinished() && steps < maxSteps; steps++) {
+            solver.step();
+            mostSegments = Math.max(mostSegments, trajectory.size());
+            mostCellsPerSegment = Math.max(mostCellsPerSegment, trajectory.cellCount() / trajectory.size());
+        }
+        expect(mostSegments).toBeLessThanOrEqual(MAX_SEGMENTS);
+        expect(mostCellsPerSegment).toBeLessThanOrEqual(MAX_CELLS_PER_SEGMENT);
+        const result = solver.getResult();
+        solver.dispose();
+        return result;
+    }
+
+    it("solves all of MyHeart, every plank touched on its note and every bounce within the speed limits", () => {
+        const noteEvents = wholeSong("MyHeart");
+        const result = solveBounded({ noteEvents, physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+
+        expect(result.solved).toBe(true);
+        expect(result.placements.map(plank => plank.noteIndex)).toEqual(noteEvents.map((_, i) => i));
+        expectContactsOnTime(noteEvents, result.placements, contactTimes(noteEvents, result.placements, true));
+        expectSpeedsInRange(bounceSpeeds(noteEvents, result.placements));
+    }, 120000);
+
+    // Their fastest runs pack notes too close for planks that never add energy, so these solves
+    // give up part way; up to there they have to stay in bounds
+    it.each([["No5_4", 190], ["Sonata3rd", 750]] as const)("keeps %s in bounds as far as it solves", (name, atLeast) => {
+        const noteEvents = wholeSong(name);
+        const result = solveBounded({ noteEvents, physics, placement: DEFAULT_SETTINGS.placement, seed: SEED });
+        // The last plank is the one the solve gave up on
+        const placements = result.placements.slice(0, -1);
+        const solvedEvents = noteEvents.slice(0, placements.length);
+
+        expect(result.solved).toBe(false);
+        expect(placements.length).toBeGreaterThanOrEqual(atLeast);
+        expectContactsOnTime(solvedEvents, placements, contactTimes(solvedEvents, placements, true));
+        expectSpeedsInRange(bounceSpeeds(solvedEvents, placements));
+    }, 120000);
+
+    it("keeps the path bounded when random planks speed the ball up to tens of kilometres a second", () => {
+        // Random placement keeps the physics' restitution, above 1 by default, and no speed limits
+        const placement = { ...DEFAULT_SETTINGS.placement, mode: "random" as const };
+        const result = solveBounded({ noteEvents: wholeSong("No5_4"), physics, placement, seed: SEED }, 10000);
+
+        expect(result.placements.length).toBeGreaterThan(150);
+    }, 120000);
+});
+
+describe("solving one ball per track", () => {
+    const physics = DEFAULT_SETTINGS.physics;
+    const midi = new Midi(readFileSync("public/midi/MyHeart.mid"));
+    const ballEvents = extractBallNoteEvents(midi, { ...DEFAULT_NOTE_SOURCE, ballPerTrack: true })
+        .map(events => events.slice(0, OPENING_EVENTS));
+    const options = { physics, placement: DEFAULT_SETTINGS.placement, seed: SEED };
+
+    // How far the ball centered at (x, y) is from the plank's surface
+    function distanceToPlank(x: number, y: number, plank: PlankPlacement) {
+        const cos = Math.cos(plank.angle);
+        const sin = Math.sin(plank.angle);
+        const localX = (x - plank.x) * cos + (y - plank.y) * sin;
+        const localY = -(x - plank.x) * sin + (y - plank.y) * cos;
+        return Math.hypot(
+            Math.max(Math.abs(localX) - plank.halfLength, 0),
+            Math.max(Math.abs(localY) - plank.halfThickness, 0)
+        );
+    }
+
+    it("never lets a ball touch another ball's planks", () => {
+        const results = solveBalls(ballEvents, options);
+        expect(results).toHaveLength(2);
+        expect(results.every(result => result.solved)).toBe(true);
+
+        // Replay both balls in one world, the way the scene does
+        const { world, ball } = createMelodyWorld(physics);
+        const bodies = [ball, createBall(world, physics, 1, ballStartFor(physics, 1))];
+        results.forEach((result, index) => {
+            for (const placement of result.placements) {
+                createPlank(world, placement, index);
+            }
+        });
+
+        const end = Math.max(...ballEvents.map(events => events[events.length - 1].time)) + 1000;
+        for (let time = 0; time < end; time += physics.timestep * 1000) {
+            world.step();
+            bodies.forEach((body, index) => {
+                const position = body.translation();
+                const others = results.filter((_, other) => other !== index).flatMap(result => result.placements);
+                for (const plank of others) {
+                    expect(distanceToPlank(position.x, position.y, plank)).toBeGreaterThan(physics.ballRadius);
+                }
+            });
+        }
+        world.free();
+    });
+
+    it("writes each ball into the layout and reads it back", () => {
+        const results = solveBalls(ballEvents, options);
+        const balls = results.map((result, ball) => ({
+            start: ballStartFor(physics, ball),
+            track: ballEvents[ball][0].notes[0].track,
+            noteEvents: ballEvents[ball],
+            placements: result.placements
+        }));
+        const layout = createLayout({ name: "MyHeart", hash: "0", noteEventCount: 2 * OPENING_EVENTS }, physics, balls, true, SEED);
+
+        const imported = parseLayout(serializeLayout(layout));
+        expect(imported.balls).toEqual(balls.map(ball => ({ start: ball.start, track: ball.track })));
+        const times = imported.planks.map(plank => plank.time);
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+        expect(layoutBalls(imported)).toEqual(balls);
+    });
+
+    it("rejects a plank for a ball the layout does not have", () => {
+        const placements = [{ x: 0, y: 0, angle: 0, restitution: 1, halfLength: 0.6, halfThickness: 0.15, noteIndex: 0 }];
+        const balls = [{ start: physics.ballStart, noteEvents: ballEvents[0], placements }];
+        const layout = createLayout({ name: "MyHeart", hash: "0", noteEventCount: OPENING_EVENTS }, physics, balls, true);
+        layout.planks[0].ball = 1;
+
+        expect(() => parseLayout(serializeLayout(layout))).toThrow("planks[0].ball");
+    });
+
+    it("rejects balls that are not a list", () => {
+        const balls = [{ start: physics.ballStart, noteEvents: ballEvents[0], placements: [] }];
+        for (const value of [null, 2, "two", {}]) {
+            const data = JSON.parse(serializeLayout(createLayout({ name: "MyHeart", hash: "0", noteEventCount: 0 }, physics, balls, true)));
+            data.balls = value;
+            expect(() => parseLayout(JSON.stringify(data))).toThrow(LayoutFormatError);
+            expect(() => parseLayout(JSON.stringify(data))).toThrow("Expected balls to list");
+        }
+    });
+});
+
+describe("layout format", () => {
+    const physics = DEFAULT_SETTINGS.physics;
+    const noteEvents = openingOf("MyHeart").slice(0, 2);
+    const placements = [
+        { x: 1, y: 2, angle: 0.1, restitution: 1.5, halfLength: 0.8, halfThickness: 0.2, noteIndex: 0 },
+        { x: 3, y: 4, angle: -0.2, restitution: 0.9, halfLength: 0.5, halfThickness: 0.1, noteIndex: 1 }
+    ];
+    const layout = () => createLayout({ name: "MyHeart", hash: "0", noteEventCount: 2 }, physics, [{ start: physics.ballStart, noteEvents, placements }], true);
+
+    it("writes the current version", () => {
+        expect(LAYOUT_FORMAT_VERSION).toBe(2);
+        expect(parseLayout(serializeLayout(layout())).version).toBe(LAYOUT_FORMAT_VERSION);
+    });
+
+    it("reads version 1, whose planks may leave out their restitution and size", () => {
+        const data = JSON.parse(serializeLayout(layout()));
+        data.version = 1;
+        delete data.planks[0].restitution;
+        delete data.planks[0].halfLength;
+        delete data.planks[0].halfThickness;
+
+        const imported = parseLayout(JSON.stringify(data));
+        expect(imported.version).toBe(LAYOUT_FORMAT_VERSION);
+        expect(layoutBalls(imported)[0].placements).toEqual([
+            { ...placements[0], restitution: physics.plankRestitution, halfLength: physics.plankHalfLength, halfThickness: physics.plankHalfThickness },
+            placements[1]
+        ]);
+    });
+
+    it("requires every plank's restitution and size from version 2 on", () => {
+        for (const key of ["restitution", "halfLength", "halfThickness"]) {
+            const data = JSON.parse(serializeLayout(layout()));
+            delete data.planks[1][key];
+            expect(() => parseLayout(JSON.stringify(data))).toThrow(`planks[1].${key}`);
+        }
+    });
+
+    it("requires the physics' timestep and sizes to be positive", () => {
+        for (const key of ["timestep", "ballRadius", "plankHalfLength", "plankHalfThickness", "scaleFactor"]) {
+            for (const value of [0, -1]) {
+                const data = JSON.parse(serializeLayout(layout()));
+                data.physics[key] = value;
+                expect(() => parseLayout(JSON.stringify(data))).toThrow(`Expected physics.${key} to be a positive number`);
+            }
+        }
+    });
+
+    it("rejects versions it does not know", () => {
+        for (const version of [0, 1.5, LAYOUT_FORMAT_VERSION + 1]) {
+            const data = JSON.parse(serializeLayout(layout()));
+            data.version = version;
+            expect(() => parseLayout(JSON.stringify(data))).toThrow("version");
+        }
+    });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { SeededRandom } from "../src/game/melody/random";
+import { TrajectoryIndex } from "../src/game/melody/trajectoryIndex";
+
+const RADIUS = 0.3;
+const TOLERANCE = RADIUS * 0.05; // The index's default
+const STEP_MS = 1000 / 60;
+
+interface Point {
+    time: number;
+    x: number;
+    y: number;
+}
+
+interface Box {
+    x: number;
+    y: number;
+    angle: number;
+    halfWidth: number;
+    halfHeight: number;
+}
+
+// A ball thrown sideways, bouncing off a floor at y = 0, sampled once per step
+function bouncingPath(steps: number, startTime = 0, start = { x: 0, y: 5 }): Point[] {
+    const dt = STEP_MS / 1000;
+    const points: Point[] = [];
+    let { x, y } = start;
+    let vx = 4;
+    let vy = 0;
+    for (let i = 0; i < steps; i++) {
+        vy -= 9.81 * dt;
+        x += vx * dt;
+        y += vy * dt;
+        if (y < 0) {
+            y = -y;
+            vy = -vy * 0.9;
+        }
+        points.push({ time: startTime + i * STEP_MS, x, y });
+    }
+    return points;
+}
+
+function indexOf(points: Point[], options: { maxSegments?: number } = {}) {
+    const index = new TrajectoryIndex({ radius: RADIUS, ...options });
+    points.forEach(point => index.add(point.time, point.x, point.y));
+    return index;
+}
+
+function randomBoxes(random: SeededRandom, count: number, points: Point[]): Box[] {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs) - 1, Math.max(...xs) + 1, Math.min(...ys) - 1, Math.max(...ys) + 1];
+    return Array.from({ length: count }, () => ({
+        x: minX + random.next() * (maxX - minX),
+        y: minY + random.next() * (maxY - minY),
+        angle: (random.next() - 0.5) * Math.PI,
+        halfWidth: 0.05 + random.next() * 0.6,
+        halfHeight: 0.05 + random.next() * 0.2
+    }));
+}
+
+// How far the nearest sampled point is from the box, the per-step check the index stands in for
+function bruteForceDistance(points: Point[], box: Box): number {
+    const cos = Math.cos(box.angle);
+    const sin = Math.sin(box.angle);
+    return Math.min(...points.map(point => {
+        const localX = (point.x - box.x) * cos + (point.y - box.y) * sin;
+        const localY = -(point.x - box.x) * sin + (point.y - box.y) * cos;
+        return Math.hypot(Math.max(Math.abs(localX) - box.halfWidth, 0), Math.max(Math.abs(localY) - box.halfHeight, 0));
+    }));
+}
+
+// The index never misses a box a sampled point touches, and only catches boxes just out of reach of one
+function expectAgreement(index: TrajectoryIndex, points: Point[], boxes: Box[]) {
+    const longestStep = Math.max(...points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y)));
+    let hits = 0;
+    for (const box of boxes) {
+        const distance = bruteForceDistance(points, box);
+        const intersects = index.intersectsBox(box.x, box.y, box.angle, box.halfWidth, box.halfHeight);
+        if (distance <= RADIUS) {
+            expect(intersects).toBe(true);
+            hits++;
+        } else if (distance > RADIUS + TOLERANCE * 3 + longestStep) {
+            expect(intersects).toBe(false);
+        }
+    }
+    // Otherwise the boxes would not test much
+    expect(hits).toBeGreaterThan(boxes.length / 20);
+}
+
+describe("TrajectoryIndex", () => {
+    it("merges a straight run into one segment", () => {
+        const index = indexOf(Array.from({ length: 50 }, (_, i) => ({ time: i * STEP_MS, x: i * 0.02, y: 1 })));
+
+        expect(index.size()).toBe(1);
+        expect(index.intersectsBox(0.5, 1 + RADIUS + 0.04, 0, 0.2, 0.05)).toBe(true);
+        expect(index.intersectsBox(0.5, 1 + RADIUS + 0.2, 0, 0.2, 0.05)).toBe(false);
+        expect(index.intersectsBox(1.5, 1, 0, 0.1, 0.1)).toBe(false);
+    });
+
+    it("agrees with a check of every sampled point along a curved path", () => {
+        const points = bouncingPath(400);
+        const index = indexOf(points);
+
+        expect(index.size()).toBeLessThan(points.length / 2);
+        expectAgreement(index, points, randomBoxes(new SeededRandom(1), 2000, points));
+    });
+
+    it("forgets the path after the time it is truncated to, and keeps the rest", () => {
+        const points = bouncingPath(400);
+        const index = indexOf(points);
+        const kept = points.slice(0, 150);
+        const end = kept[kept.length - 1];
+        // Rewind mid segment, then go another way
+        index.truncate(end.time, end.x, end.y);
+        const detour = bouncingPath(100, end.time + STEP_MS, end);
+        detour.forEach(point => index.add(point.time, point.x, point.y));
+
+        const path = [...kept, ...detour];
+        const random = new SeededRandom(2);
+        expectAgreement(index, path, randomBoxes(random, 2000, path));
+        // Nothing of the forgotten path is left
+        for (const box of randomBoxes(random, 500, points.slice(150))) {
+            if (bruteForceDistance(path, box) > RADIUS + TOLERANCE * 3 + 0.2) {
+                expect(index.intersectsBox(box.x, box.y, box.angle, box.halfWidth, box.halfHeight)).toBe(false);
+            }
+        }
+    });
+
+    it("truncates to before the segments it evicted and goes on adding", () => {
+        const points = bouncingPath(400);
+        const index = indexOf(points, { maxSegments: 10 });
+        expect(index.size()).toBe(10);
+
+        // The start of the path was evicted long ago, so the index starts over from the given point
+        index.truncate(points[5].time, points[5].x, points[5].y);
+        expect(index.size()).toBe(1);
+
+        const restart = bouncingPath(400, points[5].time + STEP_MS, points[5]);
+        restart.forEach(point => index.add(point.time, point.x, point.y));
+        expect(index.size()).toBe(10);
+
+        // The newest segments are still held
+        const recent = restart.slice(-20);
+        for (const box of randomBoxes(new SeededRandom(3), 1000, recent)) {
+            if (bruteForceDistance(recent, box) <= RADIUS) {
+                expect(index.intersectsBox(box.x, box.y, box.angle, box.halfWidth, box.halfHeight)).toBe(true);
+            }
+        }
+    });
+
+    it("splits steps longer than a segment and keeps each one to the cells it covers", () => {
+        const index = new TrajectoryIndex({ radius: RADIUS, cellSize: 2, maxSegments: 100 });
+        index.add(0, 0, 0);
+        index.add(STEP_MS, 1000, 1000); // A ball thrown across a whole square kilometre in one step
+
+        // A bounding box per step would have filled about 250000 cells
+        expect(index.size()).toBe(100);
+        expect(index.cellCount()).toBeLessThan(100 * 4);
+        expect(index.intersectsBox(999, 999, 0, 0.1, 0.1)).toBe(true);
+        expect(index.intersectsBox(999, 995, 0, 0.1, 0.1)).toBe(false);
+    });
+
+    it("stays bounded along a long, fast path", () => {
+        const index = new TrajectoryIndex({ radius: RADIUS, maxSegments: 500 });
+        const random = new SeededRandom(4);
+        let x = 0;
+        let y = 0;
+        for (let i = 0; i < 5000; i++) {
+            x += (random.next() - 0.5) * 200;
+            y += (random.next() - 0.5) * 200;
+            index.add(i * STEP_MS, x, y);
+        }
+
+        expect(index.size()).toBe(500);
+        expect(index.cellCount()).toBeLessThan(500 * 4);
+    });
+
+    it("rejects positions that are not finite or absurdly far out", () => {
+        const index = indexOf(bouncingPath(10));
+        const size = index.size();
+
+        expect(index.add(1000, NaN, 0)).toBe(false);
+        expect(index.add(1000, 0, Infinity)).toBe(false);
+        expect(index.add(1000, 1e9, 0)).toBe(false);
+        expect(index.size()).toBe(size);
+        expect(index.add(1000, 1, 5)).toBe(true);
+    });
+
+    it("clears everything", () => {
+        const index = indexOf(bouncingPath(100));
+        index.clear();
+
+        expect(index.size()).toBe(0);
+        expect(index.intersectsBox(0, 5, 0, 10, 10)).toBe(false);
+    });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit and integration tests, run headlessly in Node: npm test
+export default defineConfig({
+    test: {
+        root: new URL('..', import.meta.url).pathname,
+        include: ['tests/**/*.test.ts'],
+        environment: 'node',
+        testTimeout: 60000
+    }
+})